@@ -0,0 +1,61 @@
+import React from 'react';
+import { Board } from '@/lib/sudoku/types';
+import { Grid, bit } from '@/lib/sudoku/grid';
+
+interface CandidateBoardProps {
+  grid: Grid;
+  // Digits placed in the original puzzle; other filled cells are shown as found.
+  givens: Board;
+  cellClassName?: (cell: number) => string;
+  candidateClassName?: (cell: number, digit: number) => string;
+  onCandidateClick?: (cell: number, digit: number) => void;
+}
+
+const INDEXES = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+
+// A board that shows the pencil candidates of every open cell.
+const CandidateBoard: React.FC<CandidateBoardProps> = ({ grid, givens, cellClassName, candidateClassName, onCandidateClick }) => (
+  <div className="inline-block border-4 border-foreground bg-background">
+    {INDEXES.map((row) => (
+      <div key={row} className="flex">
+        {INDEXES.map((col) => {
+          const cell = row * 9 + col;
+          const value = grid.values[cell];
+          return (
+            <div
+              key={col}
+              className={`w-8 h-8 sm:w-10 sm:h-10 flex items-center justify-center border border-foreground/40
+                ${cellClassName?.(cell) ?? ''}
+                ${col % 3 === 2 && col !== 8 ? 'border-r-2 border-r-foreground' : ''}
+                ${row % 3 === 2 && row !== 8 ? 'border-b-2 border-b-foreground' : ''}`}
+            >
+              {value ? (
+                <span className={`font-bold ${givens[row][col] === null ? 'text-primary' : 'text-foreground'}`}>{value}</span>
+              ) : (
+                <div className="grid grid-cols-3 w-full h-full text-[7px] sm:text-[9px] leading-none">
+                  {INDEXES.map((i) => {
+                    const digit = i + 1;
+                    const candidate = grid.candidates[cell] & bit(digit);
+                    return (
+                      <span
+                        key={digit}
+                        onClick={candidate && onCandidateClick ? () => onCandidateClick(cell, digit) : undefined}
+                        className={`flex items-center justify-center ${candidate && onCandidateClick ? 'cursor-pointer hover:bg-accent' : ''} ${
+                          candidateClassName?.(cell, digit) || 'text-muted-foreground'
+                        }`}
+                      >
+                        {candidate ? digit : ''}
+                      </span>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    ))}
+  </div>
+);
+
+export default CandidateBoard;
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Difficulty, GamePuzzle } from '@/lib/sudoku/types';
+import { GenerationCancelledError, generateInWorker } from '@/lib/sudoku/generator-client';
+import { GeneratorOptions } from '@/lib/sudoku/generator';
+import { generatedPuzzleId, takeBankPuzzle } from '@/lib/sudoku/bank';
+import { loadPlayedPuzzles } from '@/lib/sudoku/played';
+import { formatPuzzleCode } from '@/lib/sudoku/puzzle-code';
+
+export function usePuzzleGenerator() {
+  const controllerRef = useRef<AbortController | null>(null);
+  const [generating, setGenerating] = useState<Difficulty | null>(null);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setGenerating(null);
+  }, []);
+
+  // Starting a new request cancels the one in flight, so picking another
+  // difficulty while a puzzle is being generated just switches to it.
+  // Without a seed the bundled bank is tried first and the worker only
+  // runs once every bank puzzle of the tier has been seen. Puzzles equivalent
+  // to ones already solved are skipped unless a seed asks for a specific one.
+  // The difficulty returned is the puzzle's real grade, which clue and
+  // minimality options can push away from the one asked for.
+  const generate = useCallback(async (
+    difficulty: Difficulty,
+    seed?: number,
+    options: GeneratorOptions = {}
+  ): Promise<{ difficulty: Difficulty; puzzle: GamePuzzle }> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setGenerating(difficulty);
+
+    try {
+      let workerOptions = options;
+      if (seed === undefined) {
+        const banked = await takeBankPuzzle(difficulty, options);
+        if (controller.signal.aborted) throw new GenerationCancelledError();
+        if (banked) return { difficulty, puzzle: banked };
+        workerOptions = { ...options, exclude: [...loadPlayedPuzzles()] };
+      }
+      const generated = await generateInWorker(difficulty, seed, workerOptions, controller.signal);
+      const { symmetry, minimal, clues } = options;
+      const code = formatPuzzleCode({ seed: generated.seed, difficulty, options: { symmetry, minimal, clues } });
+      const grade = generated.rating.grade;
+      return {
+        difficulty: grade,
+        puzzle: {
+          id: generatedPuzzleId(difficulty, code),
+          puzzle: generated.puzzle,
+          solution: generated.solution,
+          seed: generated.seed,
+          code,
+          canonical: generated.canonical,
+          clues: generated.clues,
+          minimal: generated.minimal,
+        },
+      };
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setGenerating(null);
+      }
+    }
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { generate, cancel, generating };
+}
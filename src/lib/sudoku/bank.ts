@@ -0,0 +1,85 @@
+import { Difficulty, GamePuzzle } from './types';
+import { boardFromString, countClues } from './board';
+import { GeneratorOptions } from './generator';
+import { Symmetry } from './symmetry';
+import { loadPlayedPuzzles } from './played';
+import { validatePuzzle } from './validate';
+import { TechniqueId } from './techniques';
+
+export interface BankEntry {
+  id: string;
+  puzzle: string;
+  solution: string;
+  score: number;
+  symmetry: Symmetry;
+  canonical: string;
+  minimal: boolean;
+  // Every technique the engine's solve of the puzzle uses.
+  techniques: TechniqueId[];
+}
+
+// Each tier is its own chunk, fetched the first time a puzzle of that tier is requested.
+const CHUNKS: Record<Difficulty, () => Promise<BankEntry[]>> = {
+  beginner: () => import('./bank/beginner.json').then(m => m.default as BankEntry[]),
+  easy: () => import('./bank/easy.json').then(m => m.default as BankEntry[]),
+  medium: () => import('./bank/medium.json').then(m => m.default as BankEntry[]),
+  hard: () => import('./bank/hard.json').then(m => m.default as BankEntry[]),
+  diabolical: () => import('./bank/diabolical.json').then(m => m.default as BankEntry[]),
+  extreme: () => import('./bank/extreme.json').then(m => m.default as BankEntry[]),
+};
+
+export const loadBankEntries = (difficulty: Difficulty): Promise<BankEntry[]> => CHUNKS[difficulty]();
+
+const SEEN_KEY = 'sudoku-seen-puzzles';
+
+export const loadSeenPuzzles = (): Set<string> => {
+  const saved = localStorage.getItem(SEEN_KEY);
+  return new Set(saved ? JSON.parse(saved) : []);
+};
+
+export const markPuzzleSeen = (id: string) => {
+  const seen = loadSeenPuzzles();
+  seen.add(id);
+  localStorage.setItem(SEEN_KEY, JSON.stringify([...seen]));
+};
+
+export const generatedPuzzleId = (difficulty: Difficulty, code: string) => `${difficulty}-seed-${code}`;
+
+const matchesOptions = (entry: BankEntry, { symmetry = 'random', minimal, clues }: GeneratorOptions) => {
+  if (symmetry === 'random' ? entry.symmetry === 'none' : entry.symmetry !== symmetry) return false;
+  if (minimal && !entry.minimal) return false;
+  if (clues) {
+    const count = countClues(boardFromString(entry.puzzle)!);
+    if (count < clues[0] || count > clues[1]) return false;
+  }
+  return true;
+};
+
+// Returns the first bank puzzle of the tier that fits the options, that the
+// player has not seen yet and that is not equivalent to one they already
+// solved, or null once those are used up.
+export const takeBankPuzzle = async (difficulty: Difficulty, options: GeneratorOptions = {}): Promise<GamePuzzle | null> => {
+  const entries = await loadBankEntries(difficulty);
+  const seen = loadSeenPuzzles();
+  const played = loadPlayedPuzzles();
+  const candidates = entries.filter(e => !seen.has(e.id) && !played.has(e.canonical) && matchesOptions(e, options));
+
+  // Bank data is only a file in the bundle, so it gets the same check as any imported puzzle.
+  for (const entry of candidates) {
+    const puzzle = boardFromString(entry.puzzle);
+    if (!puzzle) continue;
+    const { valid, solution } = validatePuzzle(puzzle);
+    if (!valid || !solution) continue;
+    return {
+      id: entry.id,
+      puzzle,
+      solution,
+      seed: null,
+      code: null,
+      canonical: entry.canonical,
+      clues: countClues(puzzle),
+      minimal: entry.minimal,
+    };
+  }
+  return null;
+};
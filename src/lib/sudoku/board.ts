@@ -0,0 +1,22 @@
+import { Board } from './types';
+
+export const emptyBoard = (): Board => Array(9).fill(null).map(() => Array(9).fill(null));
+
+export const cloneBoard = (board: Board): Board => board.map(row => [...row]);
+
+// 81 characters, row by row, with '.' for an empty cell.
+export const boardToString = (board: Board): string =>
+  board.flat().map(v => v ?? '.').join('');
+
+export const boardFromString = (text: string): Board | null => {
+  const chars = text.replace(/\s/g, '');
+  if (!/^[0-9.]{81}$/.test(chars)) return null;
+  return Array.from({ length: 9 }, (_, r) =>
+    Array.from({ length: 9 }, (_, c) => {
+      const ch = chars[r * 9 + c];
+      return ch === '.' || ch === '0' ? null : Number(ch);
+    })
+  );
+};
+
+export const countClues = (board: Board): number => board.flat().filter(v => v !== null).length;
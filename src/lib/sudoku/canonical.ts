@@ -0,0 +1,74 @@
+import { Board } from './types';
+
+const PERMS_3 = [[0, 1, 2], [0, 2, 1], [1, 0, 2], [1, 2, 0], [2, 0, 1], [2, 1, 0]];
+
+// All 1296 orders of nine lines that keep bands together: 6 band orders × 6³ line orders within the bands.
+const LINE_ORDERS: number[][] = PERMS_3.flatMap(bands =>
+  PERMS_3.flatMap(a => PERMS_3.flatMap(b => PERMS_3.map(c =>
+    bands.flatMap((band, i) => [a, b, c][i].map(line => band * 3 + line))
+  )))
+);
+
+// Reduces a board to the lexicographically smallest 81-character string over
+// every transposition, band/stack swap, row/column swap within a band/stack
+// and digit relabelling. Equivalent puzzles share one canonical form.
+export const canonicalForm = (board: Board): string => {
+  const values = board.flat().map(v => v ?? 0);
+  const transposed = values.map((_, i) => values[(i % 9) * 9 + Math.floor(i / 9)]);
+
+  let best: Int8Array | null = null;
+  let current: Int8Array = new Int8Array(81);
+  const labels = new Int8Array(10);
+
+  for (const grid of [values, transposed]) {
+    for (const rows of LINE_ORDERS) {
+      for (const cols of LINE_ORDERS) {
+        labels.fill(0);
+        let nextLabel = 1;
+        // -1: already smaller than best, 0: equal so far, 1: larger (abandoned).
+        let order = best ? 0 : -1;
+
+        for (let i = 0; i < 81; i++) {
+          const value = grid[rows[Math.floor(i / 9)] * 9 + cols[i % 9]];
+          let label = 0;
+          if (value) {
+            if (!labels[value]) labels[value] = nextLabel++;
+            label = labels[value];
+          }
+          current[i] = label;
+          if (order === 0 && best) {
+            if (label > best[i]) {
+              order = 1;
+              break;
+            }
+            if (label < best[i]) order = -1;
+          }
+        }
+
+        if (order === -1) {
+          const previous = best ?? new Int8Array(81);
+          best = current;
+          current = previous;
+        }
+      }
+    }
+  }
+
+  return Array.from(best!, label => (label ? String(label) : '.')).join('');
+};
+
+// cyrb53: a short, stable fingerprint of the canonical form for storage.
+const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+export const canonicalHash = (board: Board): string => hashString(canonicalForm(board));
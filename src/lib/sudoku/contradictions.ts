@@ -0,0 +1,56 @@
+import { Board } from './types';
+import { UNITS, bit, gridFromBoard } from './grid';
+import { formatCell, formatCells, formatUnit } from './describe';
+
+export type Contradiction =
+  | { type: 'duplicate'; digit: number; unit: number; cells: number[] }
+  | { type: 'noCandidates'; cell: number }
+  | { type: 'noPlace'; digit: number; unit: number };
+
+// Looks for the first sign that the board can no longer be completed. It only
+// applies the rules to the digits on the board and never looks at the solution.
+export const findContradiction = (board: Board): Contradiction | null => {
+  const { values, candidates } = gridFromBoard(board);
+
+  for (let unit = 0; unit < 27; unit++) {
+    for (let digit = 1; digit <= 9; digit++) {
+      const cells = UNITS[unit].filter(cell => values[cell] === digit);
+      if (cells.length > 1) return { type: 'duplicate', digit, unit, cells };
+    }
+  }
+
+  const cell = values.findIndex((value, i) => value === 0 && candidates[i] === 0);
+  if (cell !== -1) return { type: 'noCandidates', cell };
+
+  for (let unit = 0; unit < 27; unit++) {
+    for (let digit = 1; digit <= 9; digit++) {
+      const placed = UNITS[unit].some(c => values[c] === digit);
+      const possible = UNITS[unit].some(c => candidates[c] & bit(digit));
+      if (!placed && !possible) return { type: 'noPlace', digit, unit };
+    }
+  }
+
+  return null;
+};
+
+export const contradictionCells = (contradiction: Contradiction): number[] => {
+  switch (contradiction.type) {
+    case 'duplicate':
+      return contradiction.cells;
+    case 'noCandidates':
+      return [contradiction.cell];
+    case 'noPlace':
+      return UNITS[contradiction.unit];
+  }
+};
+
+export const describeContradiction = (contradiction: Contradiction): string => {
+  switch (contradiction.type) {
+    case 'duplicate':
+      return `Цифра ${contradiction.digit} повторяется в ${formatUnit(contradiction.unit)}: ${formatCells(contradiction.cells)}.`;
+    case 'noCandidates':
+      return `В клетку ${formatCell(contradiction.cell)} нельзя поставить ни одной цифры.`;
+    case 'noPlace':
+      return `Цифре ${contradiction.digit} не осталось места в ${formatUnit(contradiction.unit)}.`;
+  }
+};
@@ -0,0 +1,40 @@
+import { Difficulty, GamePuzzle } from './types';
+import { boardFromString, countClues } from './board';
+import { loadBankEntries } from './bank';
+import { createRandom } from './random';
+import { remixPuzzle } from './transform';
+import { validatePuzzle } from './validate';
+
+const DAILY_TIERS: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const dailyKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Everyone gets the same puzzle on the same day: a bank puzzle picked and
+// remixed by the date, so it looks new but keeps the bank puzzle's tier.
+export const dailyPuzzle = async (date = new Date()): Promise<{ difficulty: Difficulty; puzzle: GamePuzzle }> => {
+  const key = dailyKey(date);
+  const random = createRandom(Number(key.replace(/-/g, '')));
+  const difficulty = DAILY_TIERS[random.int(DAILY_TIERS.length)];
+  const entries = await loadBankEntries(difficulty);
+  const entry = entries[random.int(entries.length)];
+  const { puzzle, solution } = remixPuzzle(
+    { puzzle: boardFromString(entry.puzzle)!, solution: boardFromString(entry.solution)! },
+    random
+  );
+  if (!validatePuzzle(puzzle).valid) throw new Error(`Bank puzzle ${entry.id} is not a valid sudoku`);
+
+  return {
+    difficulty,
+    puzzle: {
+      id: `daily-${key}`,
+      puzzle,
+      solution,
+      seed: null,
+      code: null,
+      canonical: entry.canonical,
+      clues: countClues(puzzle),
+      minimal: entry.minimal,
+    },
+  };
+};
@@ -0,0 +1,17 @@
+import { colOf, rowOf } from './grid';
+
+// Unit names are in the prepositional case: «в строке 3», «в столбцах 2 и 7».
+const UNIT_NAMES = ['строке', 'столбце', 'блоке'];
+const UNIT_NAMES_PLURAL = ['строках', 'столбцах', 'блоках'];
+
+export const formatList = (items: Array<string | number>) =>
+  items.length < 2 ? items.join('') : `${items.slice(0, -1).join(', ')} и ${items[items.length - 1]}`;
+
+export const formatCell = (cell: number) => `(${rowOf(cell) + 1},${colOf(cell) + 1})`;
+
+export const formatCells = (cells: number[]) => cells.map(formatCell).join(', ');
+
+export const formatUnit = (unit: number) => `${UNIT_NAMES[Math.floor(unit / 9)]} ${(unit % 9) + 1}`;
+
+export const formatUnits = (units: number[]) =>
+  `${UNIT_NAMES_PLURAL[Math.floor(units[0] / 9)]} ${formatList(units.map(unit => (unit % 9) + 1).sort((a, b) => a - b))}`;
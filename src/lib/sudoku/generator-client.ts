@@ -0,0 +1,49 @@
+import { Difficulty } from './types';
+import { GeneratedPuzzle, GeneratorOptions } from './generator';
+import type { GeneratorRequest } from './generator.worker';
+
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Puzzle generation was cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+// Every request gets its own worker: generation is one synchronous call inside
+// the worker, so terminating it is the only way to stop a search midway.
+export const generateInWorker = (
+  difficulty: Difficulty,
+  seed?: number,
+  options?: GeneratorOptions,
+  signal?: AbortSignal
+): Promise<GeneratedPuzzle> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GenerationCancelledError());
+      return;
+    }
+
+    const worker = new Worker(new URL('./generator.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new GenerationCancelledError());
+    };
+
+    worker.onmessage = (event: MessageEvent<GeneratedPuzzle>) => {
+      finish();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Puzzle generation failed'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    const request: GeneratorRequest = { difficulty, seed, options };
+    worker.postMessage(request);
+  });
@@ -0,0 +1,120 @@
+import { Board, Difficulty } from './types';
+import { hasUniqueSolution, isMinimal, solve } from './solver';
+import { countClues, emptyBoard } from './board';
+import { Rating, ratePuzzle } from './rating';
+import { Random, createRandom, randomSeed } from './random';
+import { Symmetry, SymmetrySetting, resolveSymmetry, symmetryOrbits } from './symmetry';
+import { canonicalHash } from './canonical';
+import { getTier, tierDistance } from './tiers';
+
+const MAX_ATTEMPTS = 500;
+
+export type ClueRange = [min: number, max: number];
+
+export interface GeneratedPuzzle {
+  puzzle: Board;
+  solution: Board;
+  rating: Rating;
+  seed: number;
+  symmetry: Symmetry;
+  canonical: string;
+  clues: number;
+  minimal: boolean;
+}
+
+export interface GeneratorOptions {
+  symmetry?: SymmetrySetting;
+  // Canonical hashes of puzzles to skip, e.g. ones the player has already solved.
+  exclude?: string[];
+  // Only accept puzzles where no clue can be removed without losing uniqueness.
+  minimal?: boolean;
+  // Number of givens to aim for instead of the tier's default.
+  clues?: ClueRange;
+}
+
+const createPuzzle = (cellsToRemove: number, symmetry: Symmetry, random: Random): { puzzle: Board; solution: Board } => {
+  const solution = solve(emptyBoard(), random)!;
+
+  const puzzle = solution.map(row => [...row]);
+
+  // Try every group of symmetric cells once in random order and only keep a
+  // removal if the puzzle still has exactly one solution. On hard boards the
+  // target may not be reachable, in which case we stop with the sparsest
+  // unique puzzle.
+  const orbits = random.shuffle(symmetryOrbits(symmetry));
+  let removed = 0;
+  for (const orbit of orbits) {
+    if (removed >= cellsToRemove) break;
+    const values = orbit.map(cell => puzzle[Math.floor(cell / 9)][cell % 9]);
+    orbit.forEach(cell => {
+      puzzle[Math.floor(cell / 9)][cell % 9] = null;
+    });
+    if (hasUniqueSolution(puzzle)) {
+      removed += orbit.length;
+    } else {
+      orbit.forEach((cell, i) => {
+        puzzle[Math.floor(cell / 9)][cell % 9] = values[i];
+      });
+    }
+  }
+
+  return { puzzle, solution };
+};
+
+const cellsToRemove = (difficulty: Difficulty, { minimal, clues }: GeneratorOptions) => {
+  if (minimal) return 81;
+  if (clues) return 81 - clues[1];
+  return getTier(difficulty).cellsToRemove;
+};
+
+// The puzzle of the closest grade found from one seed, or null when every
+// attempt broke the clue or minimality options.
+const search = (difficulty: Difficulty, seed: number, options: GeneratorOptions): GeneratedPuzzle | null => {
+  const random = createRandom(seed);
+  const symmetry = resolveSymmetry(options.symmetry ?? 'random', random);
+  let closest: GeneratedPuzzle | null = null;
+  let closestDistance = Infinity;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const { puzzle, solution } = createPuzzle(cellsToRemove(difficulty, options), symmetry, random);
+    const clues = countClues(puzzle);
+    if (options.clues && (clues < options.clues[0] || clues > options.clues[1])) continue;
+    // Symmetric layouts remove whole groups of cells, so they are not always minimal.
+    if (options.minimal && !isMinimal(puzzle)) continue;
+
+    const rating = ratePuzzle(puzzle);
+    const distance = tierDistance(rating.grade, difficulty);
+    if (distance >= closestDistance) continue;
+
+    const canonical = canonicalHash(puzzle);
+    const minimal = options.minimal || isMinimal(puzzle);
+    const generated = { puzzle, solution, rating, seed, symmetry, canonical, clues, minimal };
+    if (distance === 0) return generated;
+    closest = generated;
+    closestDistance = distance;
+  }
+
+  return closest;
+};
+
+// Clue counts and minimality can rule a tier out altogether, so with those
+// options the closest grade a seed reaches is kept. Without them every tier
+// can be reached, and the search moves on seed by seed until the grade matches.
+const acceptsClosest = ({ minimal, clues }: GeneratorOptions) => Boolean(minimal || clues);
+
+// The same difficulty, seed and options always produce the same puzzle and
+// solution. Exclusions are not among those options: like a seed that misses
+// the tier, an excluded result moves on to the next seed, and the seed
+// returned is the one that made the puzzle. That can take a while, which is
+// why generation runs in a worker that can be cancelled.
+export const generateSudoku = (
+  difficulty: Difficulty,
+  seed = randomSeed(),
+  options: GeneratorOptions = {}
+): GeneratedPuzzle => {
+  for (let next = seed; ; next = (next + 1) >>> 0) {
+    const generated = search(difficulty, next, options);
+    if (!generated || options.exclude?.includes(generated.canonical)) continue;
+    if (generated.rating.grade === difficulty || acceptsClosest(options)) return generated;
+  }
+};
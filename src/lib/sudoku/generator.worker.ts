@@ -0,0 +1,13 @@
+import { GeneratorOptions, generateSudoku } from './generator';
+import { Difficulty } from './types';
+
+export interface GeneratorRequest {
+  difficulty: Difficulty;
+  seed?: number;
+  options?: GeneratorOptions;
+}
+
+self.onmessage = (event: MessageEvent<GeneratorRequest>) => {
+  const { difficulty, seed, options } = event.data;
+  self.postMessage(generateSudoku(difficulty, seed, options));
+};
@@ -0,0 +1,76 @@
+import { Board } from './types';
+
+export const ALL_CANDIDATES = 0x3fe;
+
+export const ROWS: number[][] = Array.from({ length: 9 }, (_, r) => Array.from({ length: 9 }, (_, c) => r * 9 + c));
+export const COLS: number[][] = Array.from({ length: 9 }, (_, c) => Array.from({ length: 9 }, (_, r) => r * 9 + c));
+export const BOXES: number[][] = Array.from({ length: 9 }, (_, b) =>
+  Array.from({ length: 9 }, (_, i) => (Math.floor(b / 3) * 3 + Math.floor(i / 3)) * 9 + (b % 3) * 3 + (i % 3))
+);
+// Units are indexed 0–8 for rows, 9–17 for columns and 18–26 for boxes.
+export const UNITS: number[][] = [...ROWS, ...COLS, ...BOXES];
+
+export const rowOf = (cell: number) => Math.floor(cell / 9);
+export const colOf = (cell: number) => cell % 9;
+export const boxOf = (cell: number) => Math.floor(rowOf(cell) / 3) * 3 + Math.floor(colOf(cell) / 3);
+
+export const PEERS: number[][] = Array.from({ length: 81 }, (_, cell) => {
+  const peers = new Set([...ROWS[rowOf(cell)], ...COLS[colOf(cell)], ...BOXES[boxOf(cell)]]);
+  peers.delete(cell);
+  return [...peers];
+});
+
+export const bit = (digit: number) => 1 << digit;
+
+export const popcount = (mask: number): number => {
+  let count = 0;
+  while (mask) {
+    mask &= mask - 1;
+    count++;
+  }
+  return count;
+};
+
+export const digitsOf = (mask: number): number[] => {
+  const digits: number[] = [];
+  for (let d = 1; d <= 9; d++) {
+    if (mask & bit(d)) digits.push(d);
+  }
+  return digits;
+};
+
+export interface Grid {
+  values: number[];
+  candidates: number[];
+}
+
+export const gridFromBoard = (board: Board): Grid => {
+  const values = board.flat().map(v => v ?? 0);
+  const candidates = values.map((value, cell) => {
+    if (value) return 0;
+    let mask = ALL_CANDIDATES;
+    for (const peer of PEERS[cell]) {
+      if (values[peer]) mask &= ~bit(values[peer]);
+    }
+    return mask;
+  });
+  return { values, candidates };
+};
+
+export const cloneGrid = (grid: Grid): Grid => ({
+  values: [...grid.values],
+  candidates: [...grid.candidates],
+});
+
+export const placeDigit = (grid: Grid, cell: number, digit: number) => {
+  grid.values[cell] = digit;
+  grid.candidates[cell] = 0;
+  for (const peer of PEERS[cell]) {
+    grid.candidates[peer] &= ~bit(digit);
+  }
+};
+
+export const isSolved = (grid: Grid) => grid.values.every(v => v !== 0);
+
+export const gridToBoard = (grid: Grid): Board =>
+  ROWS.map(row => row.map(cell => grid.values[cell] || null));
@@ -0,0 +1,113 @@
+import { Board } from './types';
+import { boxOf, gridFromBoard } from './grid';
+import { Step, findNextStep, getTechnique } from './techniques';
+import { formatCell, formatCells, formatList, formatUnit, formatUnits } from './describe';
+
+// Each press of the hint button reveals one more level, from a nudge to the full answer.
+export const HINT_LEVELS = ['area', 'technique', 'cells', 'answer'] as const;
+
+export type HintLevel = (typeof HINT_LEVELS)[number];
+
+export const HINT_LEVEL_NAMES: Record<HintLevel, string> = {
+  area: 'Область',
+  technique: 'Приём',
+  cells: 'Клетки',
+  answer: 'Ответ',
+};
+
+// Share of the hint penalty charged for a hint taken down to each level.
+export const HINT_LEVEL_COSTS: Record<HintLevel, number> = {
+  area: 0.25,
+  technique: 0.5,
+  cells: 0.75,
+  answer: 1,
+};
+
+export interface Hint {
+  // Null when none of the known techniques applies to the position.
+  step: Step | null;
+  level: HintLevel;
+}
+
+export interface HintHighlight {
+  units: number[];
+  cells: number[];
+  targets: number[];
+}
+
+const unique = <T>(items: T[]) => [...new Set(items)];
+
+const conclusion = ({ placements, eliminations }: Step): string => {
+  if (placements.length > 0) {
+    const [{ cell, digit }] = placements;
+    return `Поставьте ${digit} в клетку ${formatCell(cell)}.`;
+  }
+  const digits = unique(eliminations.map(e => e.digit)).sort((a, b) => a - b);
+  const cells = unique(eliminations.map(e => e.cell)).sort((a, b) => a - b);
+  return `Значит, ${digits.length > 1 ? 'цифры' : 'цифру'} ${formatList(digits)} можно убрать из ${cells.length > 1 ? 'клеток' : 'клетки'} ${formatCells(cells)}.`;
+};
+
+export const explainStep = (step: Step) => `${getTechnique(step.technique).explain(step)} ${conclusion(step)}`;
+
+// The part of the board a first nudge points to, without giving the pattern away.
+const areaOf = (step: Step): number[] => {
+  const { area } = getTechnique(step.technique);
+  if (area) return area(step);
+  return step.units.length > 0 ? step.units.slice(0, 1) : unique(step.cells.map(cell => 18 + boxOf(cell)));
+};
+
+const formatArea = (units: number[]) => (units.length > 1 ? formatUnits(units) : formatUnit(units[0]));
+
+// `removed` holds, per cell, a mask of candidates already ruled out by earlier
+// steps, so eliminations carry over from one hint to the next.
+export const findHint = (board: Board, removed: number[]): Hint => {
+  const grid = gridFromBoard(board);
+  removed.forEach((mask, cell) => {
+    grid.candidates[cell] &= ~mask;
+  });
+  return { step: findNextStep(grid), level: HINT_LEVELS[0] };
+};
+
+export const nextHintLevel = (level: HintLevel): HintLevel | null =>
+  HINT_LEVELS[HINT_LEVELS.indexOf(level) + 1] ?? null;
+
+export const deeperHintLevel = (a: HintLevel | null, b: HintLevel): HintLevel =>
+  a !== null && HINT_LEVELS.indexOf(a) > HINT_LEVELS.indexOf(b) ? a : b;
+
+// Seconds added for hints taken to the given deepest levels.
+export const hintPenaltyTime = (levels: HintLevel[], penalty: number) =>
+  Math.round(levels.reduce((total, level) => total + HINT_LEVEL_COSTS[level] * penalty, 0));
+
+export const isSameStep = (a: Step | null, b: Step | null) => a !== null && b !== null && JSON.stringify(a) === JSON.stringify(b);
+
+export const describeHint = ({ step, level }: Hint): { title: string; text: string } => {
+  if (!step) {
+    return {
+      title: 'Логический ход не найден',
+      text: 'Известные приёмы здесь не помогают. Попробуйте предположить цифру и проверить, к чему это приведёт.',
+    };
+  }
+
+  const area = formatArea(areaOf(step));
+  const { name } = getTechnique(step.technique);
+  switch (level) {
+    case 'area':
+      return { title: 'Где искать', text: `Следующий ход можно найти в ${area}.` };
+    case 'technique':
+      return { title: name, text: `Следующий ход можно найти в ${area} с помощью приёма «${name}».` };
+    case 'cells':
+      return {
+        title: name,
+        text: `Обратите внимание на ${step.cells.length > 1 ? 'клетки' : 'клетку'} ${formatCells(step.cells)} в ${area}.`,
+      };
+    case 'answer':
+      return { title: name, text: explainStep(step) };
+  }
+};
+
+export const hintHighlight = ({ step, level }: Hint): HintHighlight => {
+  if (!step) return { units: [], cells: [], targets: [] };
+  if (level === 'area' || level === 'technique') return { units: areaOf(step), cells: [], targets: [] };
+  const targets = level === 'answer' ? [...step.placements, ...step.eliminations].map(t => t.cell) : [];
+  return { units: step.units, cells: step.cells, targets };
+};
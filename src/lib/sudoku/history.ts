@@ -0,0 +1,51 @@
+import { Board } from './types';
+import { Notes } from './notes';
+
+// Everything the player can change on the board.
+export interface Snapshot {
+  board: Board;
+  removedCandidates: number[];
+  notes: Notes;
+}
+
+export const takeSnapshot = (board: Board, removedCandidates: number[], notes: Notes): Snapshot => ({
+  board: board.map(row => [...row]),
+  removedCandidates: [...removedCandidates],
+  notes: { corner: [...notes.corner], centre: [...notes.centre] },
+});
+
+// Number of open branches the entry in a cell was made in, from the outermost
+// branch point inwards; 0 for entries made before any branch point.
+export const branchDepth = (branches: Snapshot[], board: Board, cell: number): number => {
+  const row = Math.floor(cell / 9);
+  const col = cell % 9;
+  if (board[row][col] === null) return 0;
+  return branches.filter(point => point.board[row][col] !== board[row][col]).length;
+};
+
+const UNDO_LIMIT = 500;
+
+// Positions the player can step back to and, after stepping back, forward to
+// again, nearest last.
+export interface UndoHistory {
+  past: Snapshot[];
+  future: Snapshot[];
+}
+
+export const emptyUndoHistory = (): UndoHistory => ({ past: [], future: [] });
+
+// Records the position before a change; a new change drops the redo branch.
+export const recordChange = ({ past }: UndoHistory, before: Snapshot): UndoHistory => ({
+  past: [...past, before].slice(-UNDO_LIMIT),
+  future: [],
+});
+
+export const undoChange = ({ past, future }: UndoHistory, current: Snapshot): { history: UndoHistory; snapshot: Snapshot } | null => {
+  if (past.length === 0) return null;
+  return { history: { past: past.slice(0, -1), future: [...future, current] }, snapshot: past[past.length - 1] };
+};
+
+export const redoChange = ({ past, future }: UndoHistory, current: Snapshot): { history: UndoHistory; snapshot: Snapshot } | null => {
+  if (future.length === 0) return null;
+  return { history: { past: [...past, current], future: future.slice(0, -1) }, snapshot: future[future.length - 1] };
+};
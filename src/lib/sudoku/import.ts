@@ -0,0 +1,35 @@
+import { Difficulty, GamePuzzle } from './types';
+import { boardFromString, countClues } from './board';
+import { PuzzleProblem, validatePuzzle } from './validate';
+import { ratePuzzle } from './rating';
+import { canonicalHash } from './canonical';
+import { isMinimal } from './solver';
+
+export type ImportResult =
+  | { ok: true; difficulty: Difficulty; puzzle: GamePuzzle }
+  | { ok: false; problems: PuzzleProblem[] };
+
+// Turns a pasted or shared 81-character puzzle into a game, or explains why it cannot be played.
+export const importPuzzle = (text: string, source: 'import' | 'shared'): ImportResult => {
+  const board = boardFromString(text);
+  if (!board) return { ok: false, problems: [{ type: 'format' }] };
+
+  const { valid, problems, solution } = validatePuzzle(board);
+  if (!valid || !solution) return { ok: false, problems };
+
+  const canonical = canonicalHash(board);
+  return {
+    ok: true,
+    difficulty: ratePuzzle(board).grade,
+    puzzle: {
+      id: `${source}-${canonical}`,
+      puzzle: board,
+      solution,
+      seed: null,
+      code: null,
+      canonical,
+      clues: countClues(board),
+      minimal: isMinimal(board),
+    },
+  };
+};
@@ -0,0 +1,14 @@
+import { Board } from './types';
+
+// When wrong entries are pointed out: on entry, when the player asks, or only
+// once the grid is full.
+export type MistakeMode = 'instant' | 'onRequest' | 'off';
+
+export const MISTAKE_MODE_NAMES: Record<MistakeMode, string> = {
+  instant: 'Сразу',
+  onRequest: 'По запросу',
+  off: 'Только в конце',
+};
+
+export const findWrongCells = (board: Board, solution: Board): number[] =>
+  board.flat().flatMap((value, cell) => (value !== null && value !== solution[Math.floor(cell / 9)][cell % 9] ? [cell] : []));
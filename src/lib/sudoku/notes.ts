@@ -0,0 +1,33 @@
+import { PEERS, bit } from './grid';
+
+// Corner marks say "this digit goes in one of these cells"; centre marks list
+// the candidates the player is considering for the cell.
+export type NoteStyle = 'corner' | 'centre';
+
+export const NOTE_STYLE_NAMES: Record<NoteStyle, string> = {
+  corner: 'Угол',
+  centre: 'Центр',
+};
+
+// Per-cell digit masks, one array per style.
+export type Notes = Record<NoteStyle, number[]>;
+
+export const emptyNotes = (): Notes => ({
+  corner: Array(81).fill(0),
+  centre: Array(81).fill(0),
+});
+
+export const toggleNote = (notes: Notes, style: NoteStyle, cell: number, digit: number): Notes => ({
+  ...notes,
+  [style]: notes[style].map((mask, i) => (i === cell ? mask ^ bit(digit) : mask)),
+});
+
+// Removes a digit just placed in a cell from the notes of every cell that sees it.
+export const clearPeerNotes = (notes: Notes, cell: number, digit: number): Notes => {
+  const peers = new Set(PEERS[cell]);
+  const clear = (masks: number[]) => masks.map((mask, i) => (peers.has(i) ? mask & ~bit(digit) : mask));
+  return { corner: clear(notes.corner), centre: clear(notes.centre) };
+};
+
+// Slots of a 3×3 layout that corner marks fill in order: corners first, then edges.
+export const CORNER_SLOTS = [0, 2, 6, 8, 1, 7, 3, 5, 4];
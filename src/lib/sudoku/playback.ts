@@ -0,0 +1,29 @@
+import { Board } from './types';
+import { Grid, cloneGrid, gridFromBoard, isSolved } from './grid';
+import { Step, applyStep, findNextStep } from './techniques';
+
+export interface SolveFrame {
+  // The position before the step is applied.
+  grid: Grid;
+  step: Step;
+}
+
+export interface SolvePlayback {
+  frames: SolveFrame[];
+  final: Grid;
+  // False when the known techniques run out before the grid is filled.
+  solved: boolean;
+}
+
+// The full human-style solve of a puzzle, one frame per deduction.
+export const solvePlayback = (board: Board): SolvePlayback => {
+  const grid = gridFromBoard(board);
+  const frames: SolveFrame[] = [];
+  while (!isSolved(grid)) {
+    const step = findNextStep(grid);
+    if (!step) break;
+    frames.push({ grid: cloneGrid(grid), step });
+    applyStep(grid, step);
+  }
+  return { frames, final: grid, solved: isSolved(grid) };
+};
@@ -0,0 +1,14 @@
+const PLAYED_KEY = 'sudoku-played-puzzles';
+
+// Canonical hashes of every puzzle the player has solved, so that relabelled
+// or reshuffled copies of them are not served again.
+export const loadPlayedPuzzles = (): Set<string> => {
+  const saved = localStorage.getItem(PLAYED_KEY);
+  return new Set(saved ? JSON.parse(saved) : []);
+};
+
+export const markPuzzlePlayed = (canonical: string) => {
+  const played = loadPlayedPuzzles();
+  played.add(canonical);
+  localStorage.setItem(PLAYED_KEY, JSON.stringify([...played]));
+};
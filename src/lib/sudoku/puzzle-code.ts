@@ -0,0 +1,54 @@
+import { Difficulty } from './types';
+import { GeneratorOptions } from './generator';
+import { parseSeed } from './random';
+import { SYMMETRY_NAMES, SymmetrySetting } from './symmetry';
+import { isDifficulty } from './tiers';
+
+// The options that, together with the seed, decide which puzzle is generated.
+export type PuzzleOptions = Omit<GeneratorOptions, 'exclude'>;
+
+export interface PuzzleCode {
+  seed: number;
+  // The tier asked for; a number without one is played at the tier the player picks.
+  difficulty?: Difficulty;
+  options: PuzzleOptions;
+}
+
+const isSymmetrySetting = (value: string): value is SymmetrySetting => value in SYMMETRY_NAMES;
+
+// The number players see and share: the seed and tier, followed by every
+// option that differs from the defaults, e.g. "123456789/hard/rotate90/minimal/25-27".
+// A bare seed means the default options, so numbers shown before the tier and
+// options were recorded still give the same puzzle under the same tier.
+export const formatPuzzleCode = ({ seed, difficulty, options: { symmetry = 'random', minimal, clues } }: PuzzleCode): string => {
+  const parts = [String(seed)];
+  if (difficulty) parts.push(difficulty);
+  if (symmetry !== 'random') parts.push(symmetry);
+  if (minimal) parts.push('minimal');
+  if (clues) parts.push(`${clues[0]}-${clues[1]}`);
+  return parts.join('/');
+};
+
+export const parsePuzzleCode = (text: string): PuzzleCode | null => {
+  const [seedText, ...parts] = text.trim().split('/');
+  const seed = parseSeed(seedText);
+  if (seed === null) return null;
+
+  const code: PuzzleCode = { seed, options: {} };
+  const { options } = code;
+  for (const part of parts) {
+    const range = /^(\d+)-(\d+)$/.exec(part);
+    if (isDifficulty(part) && !code.difficulty) {
+      code.difficulty = part;
+    } else if (isSymmetrySetting(part) && !options.symmetry) {
+      options.symmetry = part;
+    } else if (part === 'minimal' && !options.minimal) {
+      options.minimal = true;
+    } else if (range && !options.clues && Number(range[1]) <= Number(range[2]) && Number(range[2]) <= 81) {
+      options.clues = [Number(range[1]), Number(range[2])];
+    } else {
+      return null;
+    }
+  }
+  return code;
+};
@@ -0,0 +1,40 @@
+export interface Random {
+  next: () => number;
+  int: (max: number) => number;
+  shuffle: <T>(items: T[]) => T[];
+}
+
+// mulberry32: small, fast and good enough to make every puzzle reproducible from a 32-bit seed.
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (max: number) => Math.floor(next() * max);
+
+  const shuffle = <T>(items: T[]): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = int(i + 1);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  };
+
+  return { next, int, shuffle };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+export const parseSeed = (text: string): number | null => {
+  const trimmed = text.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = Number(trimmed);
+  return seed < 4294967296 ? seed : null;
+};
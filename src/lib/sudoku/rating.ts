@@ -0,0 +1,34 @@
+import { Board, Difficulty } from './types';
+import { gridFromBoard, isSolved } from './grid';
+import { Step, TechniqueId, applyStep, findNextStep, getTechnique } from './techniques';
+import { TIER_IDS, tierForScore } from './tiers';
+
+export interface Rating {
+  grade: Difficulty;
+  // False when the known techniques get stuck; such puzzles go to the top tier.
+  solved: boolean;
+  score: number;
+  hardest: TechniqueId | null;
+  steps: Step[];
+}
+
+export const ratePuzzle = (board: Board): Rating => {
+  const grid = gridFromBoard(board);
+  const steps: Step[] = [];
+  let score = 0;
+  let hardest: TechniqueId | null = null;
+
+  while (!isSolved(grid)) {
+    const next = findNextStep(grid);
+    if (!next) return { grade: TIER_IDS[TIER_IDS.length - 1], solved: false, score, hardest, steps };
+    const { rating } = getTechnique(next.technique);
+    if (rating > score) {
+      score = rating;
+      hardest = next.technique;
+    }
+    applyStep(grid, next);
+    steps.push(next);
+  }
+
+  return { grade: tierForScore(score), solved: true, score, hardest, steps };
+};
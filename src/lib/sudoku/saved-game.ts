@@ -0,0 +1,37 @@
+import { Difficulty, GamePuzzle, Board } from './types';
+import { HintLevel } from './hints';
+import { Notes } from './notes';
+import { Snapshot } from './history';
+import { MistakeMode } from './mistakes';
+
+const SAVED_GAME_KEY = 'sudoku-saved-game';
+
+// The unfinished game, so that it survives a reload.
+export interface SavedGame {
+  difficulty: Difficulty;
+  puzzle: GamePuzzle;
+  board: Board;
+  notes: Notes;
+  removedCandidates: number[];
+  branches: Snapshot[];
+  timer: number;
+  mistakes: number;
+  // Deepest level reached for each hint taken.
+  hintLevels: HintLevel[];
+  // Seconds per hint, fixed when the game started.
+  hintPenalty: number;
+  mistakeMode: MistakeMode;
+}
+
+export const loadSavedGame = (): SavedGame | null => {
+  const saved = localStorage.getItem(SAVED_GAME_KEY);
+  return saved ? JSON.parse(saved) : null;
+};
+
+export const saveGame = (game: SavedGame) => {
+  localStorage.setItem(SAVED_GAME_KEY, JSON.stringify(game));
+};
+
+export const clearSavedGame = () => {
+  localStorage.removeItem(SAVED_GAME_KEY);
+};
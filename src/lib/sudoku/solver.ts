@@ -0,0 +1,152 @@
+import { Board } from './types';
+import { ALL_CANDIDATES, bit, boxOf, colOf, digitsOf, gridFromBoard, popcount, rowOf } from './grid';
+import { Random } from './random';
+
+interface SearchState {
+  values: number[];
+  rows: number[];
+  cols: number[];
+  boxes: number[];
+}
+
+// Returns null when two givens already clash.
+const createState = (board: Board): SearchState | null => {
+  const state: SearchState = {
+    values: board.flat().map(v => v ?? 0),
+    rows: Array(9).fill(0),
+    cols: Array(9).fill(0),
+    boxes: Array(9).fill(0),
+  };
+
+  for (let cell = 0; cell < 81; cell++) {
+    const digit = state.values[cell];
+    if (!digit) continue;
+    const mask = bit(digit);
+    const [r, c, b] = [rowOf(cell), colOf(cell), boxOf(cell)];
+    if ((state.rows[r] | state.cols[c] | state.boxes[b]) & mask) return null;
+    state.rows[r] |= mask;
+    state.cols[c] |= mask;
+    state.boxes[b] |= mask;
+  }
+
+  return state;
+};
+
+const freeMask = ({ rows, cols, boxes }: SearchState, cell: number) =>
+  ALL_CANDIDATES & ~(rows[rowOf(cell)] | cols[colOf(cell)] | boxes[boxOf(cell)]);
+
+const toggle = (state: SearchState, cell: number, digit: number) => {
+  const mask = bit(digit);
+  state.rows[rowOf(cell)] ^= mask;
+  state.cols[colOf(cell)] ^= mask;
+  state.boxes[boxOf(cell)] ^= mask;
+};
+
+// Depth-first search over row/column/box bitmasks. `onSolution` returns true to stop.
+// Without `random` the most constrained cell is branched on first. With it, cells
+// are filled in reading order with shuffled digits, which keeps the grids for
+// existing seeds unchanged.
+const search = (state: SearchState, onSolution: () => boolean, random?: Random): boolean => {
+  let bestCell = -1;
+  let bestMask = 0;
+  let bestCount = 10;
+
+  for (let cell = 0; cell < 81; cell++) {
+    if (state.values[cell]) continue;
+    const mask = freeMask(state, cell);
+    const count = popcount(mask);
+    if (count < bestCount) {
+      bestCell = cell;
+      bestMask = mask;
+      bestCount = count;
+    }
+    if (random || count === 0) break;
+  }
+
+  if (bestCell === -1) return onSolution();
+
+  const digits = random
+    ? random.shuffle([1, 2, 3, 4, 5, 6, 7, 8, 9]).filter(d => bestMask & bit(d))
+    : digitsOf(bestMask);
+
+  for (const digit of digits) {
+    state.values[bestCell] = digit;
+    toggle(state, bestCell, digit);
+    const done = search(state, onSolution, random);
+    toggle(state, bestCell, digit);
+    if (done) return true;
+  }
+  state.values[bestCell] = 0;
+  return false;
+};
+
+const toBoard = (values: number[]): Board =>
+  Array.from({ length: 9 }, (_, r) => values.slice(r * 9, r * 9 + 9));
+
+// Returns the first solution found, or null if there is none. Passing a
+// random source gives a random solution, e.g. a random full grid for an
+// empty board.
+export const solve = (board: Board, random?: Random): Board | null => {
+  const state = createState(board);
+  if (!state) return null;
+  let solution: Board | null = null;
+  search(state, () => {
+    solution = toBoard(state.values);
+    return true;
+  }, random);
+  return solution;
+};
+
+// Counts solutions of the board, giving up as soon as `limit` is reached.
+// With the default limit of 2 this answers "none, unique or ambiguous".
+export const countSolutions = (board: Board, limit = 2): number => {
+  const state = createState(board);
+  if (!state) return 0;
+  let count = 0;
+  search(state, () => ++count >= limit);
+  return count;
+};
+
+export const hasUniqueSolution = (board: Board): boolean => countSolutions(board, 2) === 1;
+
+// Digits still allowed in every cell by its row, column and box; empty for filled cells.
+export const candidates = (board: Board): number[][][] => {
+  const { candidates: masks } = gridFromBoard(board);
+  return Array.from({ length: 9 }, (_, r) => Array.from({ length: 9 }, (_, c) => digitsOf(masks[r * 9 + c])));
+};
+
+// True when no digit is repeated in a unit and every empty cell still has a candidate.
+// This is a cheap local check: a consistent board may still have no solution.
+export const isConsistent = (board: Board): boolean => {
+  const state = createState(board);
+  if (!state) return false;
+  return state.values.every((value, cell) => value !== 0 || freeMask(state, cell) !== 0);
+};
+
+// True when the puzzle is unique and every given is needed for that.
+export const isMinimal = (board: Board): boolean => {
+  if (!hasUniqueSolution(board)) return false;
+  const work = board.map(row => [...row]);
+  for (let cell = 0; cell < 81; cell++) {
+    const [r, c] = [rowOf(cell), colOf(cell)];
+    const value = work[r][c];
+    if (value === null) continue;
+    work[r][c] = null;
+    const unique = hasUniqueSolution(work);
+    work[r][c] = value;
+    if (unique) return false;
+  }
+  return true;
+};
+
+// Up to `limit` distinct solutions, e.g. two of them to show where an ambiguous puzzle forks.
+export const findSolutions = (board: Board, limit = 2): Board[] => {
+  const state = createState(board);
+  if (!state) return [];
+  const solutions: Board[] = [];
+  search(state, () => {
+    solutions.push(toBoard(state.values));
+    return solutions.length >= limit;
+  });
+  return solutions;
+};
@@ -0,0 +1,51 @@
+import { Difficulty } from './types';
+import { isDifficulty } from './tiers';
+import { HintLevel } from './hints';
+import { MistakeMode } from './mistakes';
+
+export interface BestScore {
+  time: number;
+  mistakes: number;
+  date: string;
+  seed?: number | null;
+  code?: string | null;
+  puzzleId?: string;
+  clues?: number;
+  minimal?: boolean;
+  mistakeMode?: MistakeMode;
+  hints?: number;
+  // Seconds added to `time` for the hints used.
+  hintPenalty?: number;
+  // Deepest hint level used in the game, null when it was solved without hints.
+  hintLevel?: HintLevel | null;
+}
+
+export interface Statistics {
+  // Records from games solved without hints.
+  best: Partial<Record<Difficulty, BestScore>>;
+  bestWithHints: Partial<Record<Difficulty, BestScore>>;
+  totalGames: number;
+  // Finished games counted by the deepest hint level used in them.
+  gamesByHintLevel: Partial<Record<HintLevel, number>>;
+}
+
+const STATISTICS_KEY = 'sudoku-statistics';
+
+// Older saves kept one top-level key per tier: { easy, medium, hard, totalGames }.
+export const loadStatistics = (): Statistics => {
+  const saved = localStorage.getItem(STATISTICS_KEY);
+  if (!saved) return { best: {}, bestWithHints: {}, totalGames: 0, gamesByHintLevel: {} };
+
+  const { best, bestWithHints = {}, totalGames = 0, gamesByHintLevel = {}, ...legacy } = JSON.parse(saved);
+  if (best) return { best, bestWithHints, totalGames, gamesByHintLevel };
+
+  const migrated: Statistics['best'] = {};
+  for (const [key, score] of Object.entries(legacy)) {
+    if (isDifficulty(key) && score) migrated[key] = score as BestScore;
+  }
+  return { best: migrated, bestWithHints, totalGames, gamesByHintLevel };
+};
+
+export const saveStatistics = (statistics: Statistics) => {
+  localStorage.setItem(STATISTICS_KEY, JSON.stringify(statistics));
+};
@@ -0,0 +1,48 @@
+import { Random } from './random';
+
+export type Symmetry = 'none' | 'rotate180' | 'rotate90' | 'mirror' | 'diagonal';
+export type SymmetrySetting = Symmetry | 'random';
+
+export const SYMMETRY_NAMES: Record<SymmetrySetting, string> = {
+  random: 'Случайная',
+  none: 'Без симметрии',
+  rotate180: 'Поворот на 180°',
+  rotate90: 'Поворот на 90°',
+  mirror: 'Зеркальная',
+  diagonal: 'Диагональная',
+};
+
+const SYMMETRIC: Symmetry[] = ['rotate180', 'rotate90', 'mirror', 'diagonal'];
+
+const IMAGE: Record<Symmetry, (row: number, col: number) => [number, number]> = {
+  none: (row, col) => [row, col],
+  rotate180: (row, col) => [8 - row, 8 - col],
+  rotate90: (row, col) => [col, 8 - row],
+  mirror: (row, col) => [row, 8 - col],
+  diagonal: (row, col) => [col, row],
+};
+
+// "Random" means one of the symmetric layouts; asymmetric puzzles have to be asked for explicitly.
+export const resolveSymmetry = (setting: SymmetrySetting, random: Random): Symmetry =>
+  setting === 'random' ? SYMMETRIC[random.int(SYMMETRIC.length)] : setting;
+
+// Splits the 81 cells into groups that must be given or removed together to keep the layout symmetric.
+export const symmetryOrbits = (symmetry: Symmetry): number[][] => {
+  const visited = new Set<number>();
+  const orbits: number[][] = [];
+
+  for (let cell = 0; cell < 81; cell++) {
+    if (visited.has(cell)) continue;
+    const orbit: number[] = [];
+    let current = cell;
+    while (!visited.has(current)) {
+      visited.add(current);
+      orbit.push(current);
+      const [row, col] = IMAGE[symmetry](Math.floor(current / 9), current % 9);
+      current = row * 9 + col;
+    }
+    orbits.push(orbit);
+  }
+
+  return orbits;
+};
@@ -0,0 +1,52 @@
+import { Grid, bit, digitsOf, popcount } from '../grid';
+import { formatCells } from '../describe';
+import { Technique } from './types';
+import { eliminate, seenByAll, sees, step } from './shared';
+
+// A chain of two-candidate cells, each seeing the next. If the first cell is not
+// x, every cell along the chain is forced, ending with x in the last one, so x
+// is in one of the two ends.
+export const xyChain: Technique = {
+  id: 'xyChain',
+  name: 'XY-цепочка',
+  rating: 6.0,
+  find: (grid: Grid) => {
+    const bivalue = Array.from({ length: 81 }, (_, cell) => cell).filter(
+      cell => grid.values[cell] === 0 && popcount(grid.candidates[cell]) === 2
+    );
+    const otherDigit = (cell: number, digit: number) => digitsOf(grid.candidates[cell] & ~bit(digit))[0];
+
+    for (const start of bivalue) {
+      for (const x of digitsOf(grid.candidates[start])) {
+        // States are cell * 10 + the digit the cell is forced to hold.
+        const first = start * 10 + otherDigit(start, x);
+        const parents = new Map<number, number>([[first, -1]]);
+        const queue = [first];
+        for (let i = 0; i < queue.length; i++) {
+          const cell = Math.floor(queue[i] / 10);
+          const digit = queue[i] % 10;
+          for (const next of bivalue) {
+            if (next === start || !sees(cell, next) || !(grid.candidates[next] & bit(digit))) continue;
+            const forced = otherDigit(next, digit);
+            const state = next * 10 + forced;
+            if (parents.has(state)) continue;
+            parents.set(state, queue[i]);
+            queue.push(state);
+            if (forced !== x) continue;
+
+            const eliminations = eliminate(grid, seenByAll(grid, [start, next]), [x]);
+            if (eliminations.length > 0) {
+              const cells: number[] = [];
+              for (let s = state; s !== -1; s = parents.get(s)!) cells.unshift(Math.floor(s / 10));
+              return step('xyChain', { eliminations, cells, digits: [x] });
+            }
+          }
+        }
+      }
+    }
+    return null;
+  },
+  explain: ({ cells, digits: [x] }) =>
+    `В цепочке клеток с двумя кандидатами ${formatCells(cells)} каждая видит следующую. ` +
+    `Если в первой клетке не ${x}, то ${x} оказывается в последней, поэтому ${x} стоит в одной из крайних клеток.`,
+};
@@ -0,0 +1,63 @@
+import { Grid, UNITS } from '../grid';
+import { formatCells } from '../describe';
+import { Technique } from './types';
+import { cellsWithDigit, eliminate, sees, step } from './shared';
+
+// Strong links for one digit: pairs of cells that are its only places in some unit.
+const strongLinks = (grid: Grid, digit: number) => {
+  const links = new Map<number, number[]>();
+  for (const unit of UNITS) {
+    const cells = cellsWithDigit(grid, unit, digit);
+    if (cells.length !== 2) continue;
+    const [a, b] = cells;
+    links.set(a, [...(links.get(a) ?? []), b]);
+    links.set(b, [...(links.get(b) ?? []), a]);
+  }
+  return links;
+};
+
+// Colours each chain of strong links in two alternating colours: the digit is
+// true in every cell of one colour. Cells list the whole chain.
+export const simpleColouring: Technique = {
+  id: 'simpleColouring',
+  name: 'Простая раскраска',
+  rating: 5.6,
+  find: (grid: Grid) => {
+    for (let digit = 1; digit <= 9; digit++) {
+      const links = strongLinks(grid, digit);
+      const colours = new Map<number, number>();
+      for (const start of links.keys()) {
+        if (colours.has(start)) continue;
+        colours.set(start, 0);
+        const chain = [start];
+        for (let i = 0; i < chain.length; i++) {
+          for (const next of links.get(chain[i])!) {
+            if (colours.has(next)) continue;
+            colours.set(next, 1 - colours.get(chain[i])!);
+            chain.push(next);
+          }
+        }
+        const groups = [0, 1].map(colour => chain.filter(cell => colours.get(cell) === colour));
+
+        // Two cells of one colour see each other, so that colour cannot be the true one.
+        for (const group of groups) {
+          if (group.some(a => group.some(b => sees(a, b)))) {
+            return step('simpleColouring', { eliminations: eliminate(grid, group, [digit]), cells: chain, digits: [digit] });
+          }
+        }
+
+        // A cell outside the chain that sees both colours loses the digit either way.
+        const targets = cellsWithDigit(grid, Array.from({ length: 81 }, (_, cell) => cell), digit).filter(
+          cell => !colours.has(cell) && groups.every(group => group.some(c => sees(cell, c)))
+        );
+        if (targets.length > 0) {
+          return step('simpleColouring', { eliminations: eliminate(grid, targets, [digit]), cells: chain, digits: [digit] });
+        }
+      }
+    }
+    return null;
+  },
+  explain: ({ cells, digits }) =>
+    `Сильные связи по цифре ${digits[0]} соединяют клетки ${formatCells(cells)} в цепочку. ` +
+    `Если раскрасить её через одну в два цвета, ${digits[0]} окажется во всех клетках одного из цветов.`,
+};
@@ -0,0 +1,47 @@
+import { COLS, Grid, ROWS } from '../grid';
+import { formatUnits } from '../describe';
+import { Step, Technique, TechniqueId } from './types';
+import { cellsWithDigit, combinations, eliminate, step } from './shared';
+
+// Units hold the base lines followed by the cover lines.
+const findFish = (technique: TechniqueId, size: number) => (grid: Grid): Step | null => {
+  for (let digit = 1; digit <= 9; digit++) {
+    for (const [bases, covers, offset] of [[ROWS, COLS, 0], [COLS, ROWS, 9]] as const) {
+      const baseLines = bases
+        .map((line, index) => ({ index, positions: cellsWithDigit(grid, line, digit).map(c => line.indexOf(c)) }))
+        .filter(({ positions }) => positions.length >= 2 && positions.length <= size);
+      for (const lines of combinations(baseLines, size)) {
+        const coverIndexes = [...new Set(lines.flatMap(l => l.positions))];
+        if (coverIndexes.length !== size) continue;
+        const baseIndexes = lines.map(l => l.index);
+        const targets = coverIndexes.flatMap(i => covers[i].filter(c => !baseIndexes.some(b => bases[b].includes(c))));
+        const eliminations = eliminate(grid, targets, [digit]);
+        if (eliminations.length > 0) {
+          const cells = baseIndexes.flatMap(b => cellsWithDigit(grid, bases[b], digit));
+          const coverOffset = offset === 0 ? 9 : 0;
+          return step(technique, {
+            eliminations,
+            cells,
+            digits: [digit],
+            units: [...baseIndexes.map(b => offset + b), ...coverIndexes.map(i => coverOffset + i)],
+          });
+        }
+      }
+    }
+  }
+  return null;
+};
+
+const fish = (id: TechniqueId, name: string, rating: number, size: number): Technique => ({
+  id,
+  name,
+  rating,
+  find: findFish(id, size),
+  explain: ({ digits, units }) =>
+    `В ${formatUnits(units.slice(0, size))} цифра ${digits[0]} возможна только в ${formatUnits(units.slice(size))}.`,
+  area: ({ units }) => units.slice(0, size),
+});
+
+export const xWing = fish('xWing', 'X-Wing', 3.5, 2);
+export const swordfish = fish('swordfish', 'Swordfish', 4.0, 3);
+export const jellyfish = fish('jellyfish', 'Jellyfish', 5.2, 4);
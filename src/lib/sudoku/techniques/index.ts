@@ -0,0 +1,50 @@
+import { Grid, bit, placeDigit } from '../grid';
+import { Step, Technique, TechniqueId } from './types';
+import { hiddenSingle, nakedSingle } from './singles';
+import { boxLine, pointing } from './intersections';
+import { hiddenPair, hiddenQuad, hiddenTriple, nakedPair, nakedQuad, nakedTriple } from './subsets';
+import { jellyfish, swordfish, xWing } from './fish';
+import { wWing, xyWing, xyzWing } from './wings';
+import { uniqueRectangle } from './uniqueness';
+import { simpleColouring } from './colouring';
+import { xyChain } from './chains';
+
+export type { CellDigit, Step, Technique, TechniqueId } from './types';
+
+// Ordered by rating: the engine always takes the easiest deduction available.
+export const TECHNIQUES: Technique[] = [
+  hiddenSingle,
+  nakedSingle,
+  pointing,
+  boxLine,
+  nakedPair,
+  hiddenPair,
+  nakedTriple,
+  hiddenTriple,
+  xWing,
+  swordfish,
+  xyWing,
+  xyzWing,
+  wWing,
+  uniqueRectangle,
+  nakedQuad,
+  jellyfish,
+  hiddenQuad,
+  simpleColouring,
+  xyChain,
+];
+
+export const getTechnique = (id: TechniqueId): Technique => TECHNIQUES.find(t => t.id === id)!;
+
+export const findNextStep = (grid: Grid): Step | null => {
+  for (const technique of TECHNIQUES) {
+    const found = technique.find(grid);
+    if (found) return found;
+  }
+  return null;
+};
+
+export const applyStep = (grid: Grid, { placements, eliminations }: Step) => {
+  for (const { cell, digit } of placements) placeDigit(grid, cell, digit);
+  for (const { cell, digit } of eliminations) grid.candidates[cell] &= ~bit(digit);
+};
@@ -0,0 +1,59 @@
+import { BOXES, Grid, UNITS, boxOf, colOf, rowOf } from '../grid';
+import { formatCells, formatUnit } from '../describe';
+import { Step, Technique } from './types';
+import { cellsWithDigit, eliminate, step } from './shared';
+
+// The digit's candidates in the first unit all lie in the second one.
+const explain = ({ cells, digits, units }: Step) =>
+  `В ${formatUnit(units[0])} цифра ${digits[0]} возможна только в клетках ${formatCells(cells)}, и все они лежат в ${formatUnit(units[1])}.`;
+
+export const pointing: Technique = {
+  id: 'pointing',
+  name: 'Указывающая группа',
+  rating: 2.0,
+  find: (grid: Grid) => {
+    for (let box = 0; box < 9; box++) {
+      for (let digit = 1; digit <= 9; digit++) {
+        const cells = cellsWithDigit(grid, BOXES[box], digit);
+        if (cells.length < 2) continue;
+        const lines = [
+          { unit: rowOf(cells[0]), same: cells.every(c => rowOf(c) === rowOf(cells[0])) },
+          { unit: 9 + colOf(cells[0]), same: cells.every(c => colOf(c) === colOf(cells[0])) },
+        ];
+        for (const { unit, same } of lines) {
+          if (!same) continue;
+          const targets = UNITS[unit].filter(c => boxOf(c) !== box);
+          const eliminations = eliminate(grid, targets, [digit]);
+          if (eliminations.length > 0) {
+            return step('pointing', { eliminations, cells, digits: [digit], units: [18 + box, unit] });
+          }
+        }
+      }
+    }
+    return null;
+  },
+  explain,
+};
+
+export const boxLine: Technique = {
+  id: 'boxLine',
+  name: 'Блок-строка',
+  rating: 2.2,
+  find: (grid: Grid) => {
+    for (let unit = 0; unit < 18; unit++) {
+      for (let digit = 1; digit <= 9; digit++) {
+        const cells = cellsWithDigit(grid, UNITS[unit], digit);
+        if (cells.length < 2) continue;
+        const box = boxOf(cells[0]);
+        if (!cells.every(c => boxOf(c) === box)) continue;
+        const targets = BOXES[box].filter(c => !UNITS[unit].includes(c));
+        const eliminations = eliminate(grid, targets, [digit]);
+        if (eliminations.length > 0) {
+          return step('boxLine', { eliminations, cells, digits: [digit], units: [unit, 18 + box] });
+        }
+      }
+    }
+    return null;
+  },
+  explain,
+};
@@ -0,0 +1,48 @@
+import { Grid, bit, boxOf, colOf, rowOf } from '../grid';
+import { CellDigit, Step, TechniqueId } from './types';
+
+export const combinations = <T>(items: T[], size: number): T[][] => {
+  if (size === 0) return [[]];
+  const result: T[][] = [];
+  for (let i = 0; i <= items.length - size; i++) {
+    for (const rest of combinations(items.slice(i + 1), size - 1)) {
+      result.push([items[i], ...rest]);
+    }
+  }
+  return result;
+};
+
+export const cellsWithDigit = (grid: Grid, cells: number[], digit: number) =>
+  cells.filter(cell => grid.candidates[cell] & bit(digit));
+
+export const eliminate = (grid: Grid, cells: number[], digits: number[]): CellDigit[] => {
+  const result: CellDigit[] = [];
+  for (const cell of cells) {
+    for (const digit of digits) {
+      if (grid.candidates[cell] & bit(digit)) result.push({ cell, digit });
+    }
+  }
+  return result;
+};
+
+export const step = (technique: TechniqueId, fields: Partial<Step>): Step => ({
+  technique,
+  placements: [],
+  eliminations: [],
+  cells: [],
+  digits: [],
+  units: [],
+  ...fields,
+});
+
+export const sees = (a: number, b: number) =>
+  a !== b && (rowOf(a) === rowOf(b) || colOf(a) === colOf(b) || boxOf(a) === boxOf(b));
+
+// Open cells other than `pattern` that share a unit with every cell of `pattern`.
+export const seenByAll = (grid: Grid, pattern: number[]) =>
+  Array.from({ length: 81 }, (_, cell) => cell).filter(
+    cell => grid.values[cell] === 0 && !pattern.includes(cell) && pattern.every(p => sees(cell, p))
+  );
+
+// Hidden singles and subsets are looked for in boxes first, as a person scanning the grid would.
+export const SCAN_ORDER = Array.from({ length: 27 }, (_, i) => (i + 18) % 27);
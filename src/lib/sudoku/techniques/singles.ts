@@ -0,0 +1,39 @@
+import { Grid, UNITS, digitsOf, popcount } from '../grid';
+import { formatCell, formatUnit } from '../describe';
+import { Technique } from './types';
+import { SCAN_ORDER, cellsWithDigit, step } from './shared';
+
+export const hiddenSingle: Technique = {
+  id: 'hiddenSingle',
+  name: 'Скрытая одиночка',
+  rating: 1.2,
+  find: (grid: Grid) => {
+    for (const unit of SCAN_ORDER) {
+      for (let digit = 1; digit <= 9; digit++) {
+        const cells = cellsWithDigit(grid, UNITS[unit], digit);
+        if (cells.length === 1) {
+          return step('hiddenSingle', { placements: [{ cell: cells[0], digit }], cells, digits: [digit], units: [unit] });
+        }
+      }
+    }
+    return null;
+  },
+  explain: ({ cells, digits, units }) =>
+    `В ${formatUnit(units[0])} цифра ${digits[0]} может стоять только в клетке ${formatCell(cells[0])}.`,
+};
+
+export const nakedSingle: Technique = {
+  id: 'nakedSingle',
+  name: 'Голая одиночка',
+  rating: 1.5,
+  find: (grid: Grid) => {
+    for (let cell = 0; cell < 81; cell++) {
+      if (grid.values[cell] === 0 && popcount(grid.candidates[cell]) === 1) {
+        const digit = digitsOf(grid.candidates[cell])[0];
+        return step('nakedSingle', { placements: [{ cell, digit }], cells: [cell], digits: [digit] });
+      }
+    }
+    return null;
+  },
+  explain: ({ cells, digits }) => `У клетки ${formatCell(cells[0])} остался единственный кандидат — ${digits[0]}.`,
+};
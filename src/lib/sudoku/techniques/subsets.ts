@@ -0,0 +1,66 @@
+import { Grid, UNITS, bit, digitsOf, popcount } from '../grid';
+import { formatCells, formatList, formatUnit } from '../describe';
+import { Step, Technique, TechniqueId } from './types';
+import { SCAN_ORDER, cellsWithDigit, combinations, eliminate, step } from './shared';
+
+const findNakedSubset = (technique: TechniqueId, size: number) => (grid: Grid): Step | null => {
+  for (const unit of SCAN_ORDER) {
+    const open = UNITS[unit].filter(c => grid.values[c] === 0);
+    const small = open.filter(c => popcount(grid.candidates[c]) <= size);
+    for (const cells of combinations(small, size)) {
+      const mask = cells.reduce((m, c) => m | grid.candidates[c], 0);
+      if (popcount(mask) !== size) continue;
+      const digits = digitsOf(mask);
+      const eliminations = eliminate(grid, open.filter(c => !cells.includes(c)), digits);
+      if (eliminations.length > 0) {
+        return step(technique, { eliminations, cells, digits, units: [unit] });
+      }
+    }
+  }
+  return null;
+};
+
+const findHiddenSubset = (technique: TechniqueId, size: number) => (grid: Grid): Step | null => {
+  for (const unit of SCAN_ORDER) {
+    const open = UNITS[unit].filter(c => grid.values[c] === 0);
+    const available = [1, 2, 3, 4, 5, 6, 7, 8, 9].filter(d => {
+      const count = cellsWithDigit(grid, open, d).length;
+      return count >= 2 && count <= size;
+    });
+    for (const digits of combinations(available, size)) {
+      const cells = open.filter(c => digits.some(d => grid.candidates[c] & bit(d)));
+      if (cells.length !== size) continue;
+      const others = [1, 2, 3, 4, 5, 6, 7, 8, 9].filter(d => !digits.includes(d));
+      const eliminations = eliminate(grid, cells, others);
+      if (eliminations.length > 0) {
+        return step(technique, { eliminations, cells, digits, units: [unit] });
+      }
+    }
+  }
+  return null;
+};
+
+const naked = (id: TechniqueId, name: string, rating: number, size: number): Technique => ({
+  id,
+  name,
+  rating,
+  find: findNakedSubset(id, size),
+  explain: ({ cells, digits, units }) =>
+    `Клетки ${formatCells(cells)} в ${formatUnit(units[0])} вместе могут содержать только цифры ${formatList(digits)}.`,
+});
+
+const hidden = (id: TechniqueId, name: string, rating: number, size: number): Technique => ({
+  id,
+  name,
+  rating,
+  find: findHiddenSubset(id, size),
+  explain: ({ cells, digits, units }) =>
+    `В ${formatUnit(units[0])} цифры ${formatList(digits)} могут стоять только в клетках ${formatCells(cells)}.`,
+});
+
+export const nakedPair = naked('nakedPair', 'Открытая пара', 2.5, 2);
+export const hiddenPair = hidden('hiddenPair', 'Скрытая пара', 2.8, 2);
+export const nakedTriple = naked('nakedTriple', 'Открытая тройка', 3.0, 3);
+export const hiddenTriple = hidden('hiddenTriple', 'Скрытая тройка', 3.2, 3);
+export const nakedQuad = naked('nakedQuad', 'Открытая четвёрка', 5.0, 4);
+export const hiddenQuad = hidden('hiddenQuad', 'Скрытая четвёрка', 5.4, 4);
@@ -0,0 +1,49 @@
+import { Grid } from '../grid';
+
+export type TechniqueId =
+  | 'nakedSingle'
+  | 'hiddenSingle'
+  | 'pointing'
+  | 'boxLine'
+  | 'nakedPair'
+  | 'hiddenPair'
+  | 'nakedTriple'
+  | 'hiddenTriple'
+  | 'nakedQuad'
+  | 'hiddenQuad'
+  | 'xWing'
+  | 'swordfish'
+  | 'jellyfish'
+  | 'xyWing'
+  | 'xyzWing'
+  | 'wWing'
+  | 'simpleColouring'
+  | 'uniqueRectangle'
+  | 'xyChain';
+
+export interface CellDigit {
+  cell: number;
+  digit: number;
+}
+
+export interface Step {
+  technique: TechniqueId;
+  placements: CellDigit[];
+  eliminations: CellDigit[];
+  // Cells and digits that form the pattern, i.e. the reason for the step.
+  cells: number[];
+  digits: number[];
+  units: number[];
+}
+
+export interface Technique {
+  id: TechniqueId;
+  name: string;
+  rating: number;
+  find: (grid: Grid) => Step | null;
+  // Russian sentence describing the pattern behind a step, without its conclusion.
+  explain: (step: Step) => string;
+  // Units to point the player to before revealing the pattern; defaults to the
+  // first unit of the step or the boxes of its cells.
+  area?: (step: Step) => number[];
+}
@@ -0,0 +1,54 @@
+import { Grid, bit, boxOf, colOf, digitsOf, popcount, rowOf } from '../grid';
+import { formatCell, formatCells } from '../describe';
+import { Technique } from './types';
+import { combinations, eliminate, seenByAll, step } from './shared';
+
+// Four cells in two rows, two columns and two boxes that could all hold just a and b
+// would let the puzzle have two solutions, which a proper sudoku never does.
+// Type 1 keeps the odd corner last; type 2 adds the extra digit c to the digits.
+export const uniqueRectangle: Technique = {
+  id: 'uniqueRectangle',
+  name: 'Уникальный прямоугольник',
+  rating: 4.6,
+  find: (grid: Grid) => {
+    const indexes = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+    for (const [r1, r2] of combinations(indexes, 2)) {
+      for (const [c1, c2] of combinations(indexes, 2)) {
+        const corners = [r1 * 9 + c1, r1 * 9 + c2, r2 * 9 + c1, r2 * 9 + c2];
+        if (new Set(corners.map(boxOf)).size !== 2 || corners.some(cell => grid.values[cell] !== 0)) continue;
+        const common = corners.reduce((mask, cell) => mask & grid.candidates[cell], grid.candidates[corners[0]]);
+        for (const [a, b] of combinations(digitsOf(common), 2)) {
+          const pair = bit(a) | bit(b);
+          const exact = corners.filter(cell => grid.candidates[cell] === pair);
+          const extra = corners.filter(cell => grid.candidates[cell] !== pair);
+
+          if (exact.length === 3) {
+            const eliminations = eliminate(grid, extra, [a, b]);
+            return step('uniqueRectangle', { eliminations, cells: [...exact, ...extra], digits: [a, b] });
+          }
+
+          const [e1, e2] = extra;
+          if (
+            exact.length === 2 &&
+            (rowOf(e1) === rowOf(e2) || colOf(e1) === colOf(e2)) &&
+            grid.candidates[e1] === grid.candidates[e2] &&
+            popcount(grid.candidates[e1]) === 3
+          ) {
+            const c = digitsOf(grid.candidates[e1] & ~pair)[0];
+            const eliminations = eliminate(grid, seenByAll(grid, extra), [c]);
+            if (eliminations.length > 0) {
+              return step('uniqueRectangle', { eliminations, cells: [...exact, ...extra], digits: [a, b, c] });
+            }
+          }
+        }
+      }
+    }
+    return null;
+  },
+  explain: ({ cells, digits: [a, b, c] }) => {
+    const rectangle = `Клетки ${formatCells(cells)} образуют прямоугольник в двух блоках с кандидатами ${a} и ${b}.`;
+    return c === undefined
+      ? `${rectangle} Если бы и в ${formatCell(cells[3])} остались только эти цифры, у головоломки было бы два решения.`
+      : `${rectangle} Чтобы решение было единственным, цифра ${c} должна стоять в ${formatCell(cells[2])} или ${formatCell(cells[3])}.`;
+  },
+};
@@ -0,0 +1,101 @@
+import { Grid, UNITS, bit, digitsOf, popcount } from '../grid';
+import { formatCell, formatUnit } from '../describe';
+import { Technique } from './types';
+import { cellsWithDigit, combinations, eliminate, seenByAll, sees, step } from './shared';
+
+const cellsWithCandidates = (grid: Grid, count: number) =>
+  Array.from({ length: 81 }, (_, cell) => cell).filter(
+    cell => grid.values[cell] === 0 && popcount(grid.candidates[cell]) === count
+  );
+
+// Cells are the pivot and both pincers; digits are a, b and the eliminated c.
+export const xyWing: Technique = {
+  id: 'xyWing',
+  name: 'XY-Wing',
+  rating: 4.2,
+  find: (grid: Grid) => {
+    const bivalue = cellsWithCandidates(grid, 2);
+    for (const pivot of bivalue) {
+      const [a, b] = digitsOf(grid.candidates[pivot]);
+      const pincers = bivalue.filter(cell => sees(cell, pivot));
+      for (const first of pincers) {
+        const mask = grid.candidates[first];
+        if (!(mask & bit(a)) || mask & bit(b)) continue;
+        const c = digitsOf(mask & ~bit(a))[0];
+        for (const second of pincers) {
+          if (grid.candidates[second] !== (bit(b) | bit(c))) continue;
+          const eliminations = eliminate(grid, seenByAll(grid, [first, second]), [c]);
+          if (eliminations.length > 0) {
+            return step('xyWing', { eliminations, cells: [pivot, first, second], digits: [a, b, c] });
+          }
+        }
+      }
+    }
+    return null;
+  },
+  explain: ({ cells: [pivot, first, second], digits: [a, b, c] }) =>
+    `Клетка ${formatCell(pivot)} содержит только ${a} и ${b}, а клетки ${formatCell(first)} и ${formatCell(second)} — пары ${a}/${c} и ${b}/${c}. ` +
+    `Какая бы цифра ни стояла в ${formatCell(pivot)}, ${c} окажется в одной из двух других клеток.`,
+};
+
+// Like the XY-Wing, but the pivot also holds c, so only cells seeing all three lose it.
+export const xyzWing: Technique = {
+  id: 'xyzWing',
+  name: 'XYZ-Wing',
+  rating: 4.4,
+  find: (grid: Grid) => {
+    const bivalue = cellsWithCandidates(grid, 2);
+    for (const pivot of cellsWithCandidates(grid, 3)) {
+      const mask = grid.candidates[pivot];
+      const pincers = bivalue.filter(cell => sees(cell, pivot) && (grid.candidates[cell] & ~mask) === 0);
+      for (const [first, second] of combinations(pincers, 2)) {
+        const [firstMask, secondMask] = [grid.candidates[first], grid.candidates[second]];
+        if (firstMask === secondMask || (firstMask | secondMask) !== mask) continue;
+        const c = digitsOf(firstMask & secondMask)[0];
+        const eliminations = eliminate(grid, seenByAll(grid, [pivot, first, second]), [c]);
+        if (eliminations.length > 0) {
+          const a = digitsOf(firstMask & ~bit(c))[0];
+          const b = digitsOf(secondMask & ~bit(c))[0];
+          return step('xyzWing', { eliminations, cells: [pivot, first, second], digits: [a, b, c] });
+        }
+      }
+    }
+    return null;
+  },
+  explain: ({ cells: [pivot, first, second], digits: [a, b, c] }) =>
+    `Клетка ${formatCell(pivot)} содержит ${a}, ${b} и ${c}, а клетки ${formatCell(first)} и ${formatCell(second)} — пары ${a}/${c} и ${b}/${c}. ` +
+    `Цифра ${c} обязательно окажется в одной из этих трёх клеток.`,
+};
+
+// Two identical pairs joined by a strong link: a unit where digit a fits only
+// in two cells, one seeing each pair. Cells are the pairs, then the link.
+export const wWing: Technique = {
+  id: 'wWing',
+  name: 'W-Wing',
+  rating: 4.5,
+  find: (grid: Grid) => {
+    const bivalue = cellsWithCandidates(grid, 2);
+    for (const [first, second] of combinations(bivalue, 2)) {
+      if (grid.candidates[first] !== grid.candidates[second] || sees(first, second)) continue;
+      const [x, y] = digitsOf(grid.candidates[first]);
+      for (const [a, b] of [[x, y], [y, x]]) {
+        for (let unit = 0; unit < 27; unit++) {
+          const link = cellsWithDigit(grid, UNITS[unit], a);
+          if (link.length !== 2 || link.includes(first) || link.includes(second)) continue;
+          const joined =
+            (sees(link[0], first) && sees(link[1], second)) || (sees(link[0], second) && sees(link[1], first));
+          if (!joined) continue;
+          const eliminations = eliminate(grid, seenByAll(grid, [first, second]), [b]);
+          if (eliminations.length > 0) {
+            return step('wWing', { eliminations, cells: [first, second, ...link], digits: [a, b], units: [unit] });
+          }
+        }
+      }
+    }
+    return null;
+  },
+  explain: ({ cells: [first, second, ...link], digits: [a, b], units }) =>
+    `Клетки ${formatCell(first)} и ${formatCell(second)} содержат только ${a} и ${b}, а в ${formatUnit(units[0])} цифра ${a} ` +
+    `может стоять лишь в ${formatCell(link[0])} и ${formatCell(link[1])}, которые их видят. ` +
+    `Поэтому ${b} стоит в одной из клеток ${formatCell(first)}, ${formatCell(second)}.`,
+};
@@ -0,0 +1,35 @@
+import { Difficulty } from './types';
+
+export interface Tier {
+  id: Difficulty;
+  name: string;
+  description: string;
+  icon: string;
+  kanji: string;
+  hoverClass: string;
+  // Highest rating score (see techniques.ts) a puzzle of this tier may need.
+  maxScore: number;
+  // Blank cells the generator aims for; the rating still decides the tier.
+  cellsToRemove: number;
+}
+
+// Single source of truth for difficulty tiers, easiest first. The last tier
+// is open-ended and also takes puzzles the technique library cannot finish.
+export const TIERS: Tier[] = [
+  { id: 'beginner', name: 'Ученик', description: 'первые шаги', icon: 'Sprout', kanji: '一', hoverClass: 'hover:bg-secondary', maxScore: 1.2, cellsToRemove: 36 },
+  { id: 'easy', name: 'Новичок', description: 'для начинающих', icon: 'Cherry', kanji: '二', hoverClass: 'hover:bg-secondary', maxScore: 1.5, cellsToRemove: 50 },
+  { id: 'medium', name: 'Средний', description: 'для опытных', icon: 'Mountain', kanji: '三', hoverClass: 'hover:bg-accent', maxScore: 2.5, cellsToRemove: 50 },
+  { id: 'hard', name: 'Эксперт', description: 'для мастеров', icon: 'Zap', kanji: '四', hoverClass: 'hover:bg-primary/10', maxScore: 3.2, cellsToRemove: 64 },
+  { id: 'diabolical', name: 'Дьявольский', description: 'для виртуозов', icon: 'Flame', kanji: '五', hoverClass: 'hover:bg-primary/10', maxScore: 4.0, cellsToRemove: 64 },
+  { id: 'extreme', name: 'Экстрим', description: 'за гранью', icon: 'Skull', kanji: '六', hoverClass: 'hover:bg-primary/20', maxScore: Infinity, cellsToRemove: 64 },
+];
+
+export const TIER_IDS: Difficulty[] = TIERS.map(t => t.id);
+
+export const getTier = (id: Difficulty): Tier => TIERS.find(t => t.id === id)!;
+
+export const isDifficulty = (value: string): value is Difficulty => TIER_IDS.includes(value as Difficulty);
+
+export const tierForScore = (score: number): Difficulty => TIERS.find(t => score <= t.maxScore)!.id;
+
+export const tierDistance = (a: Difficulty, b: Difficulty) => Math.abs(TIER_IDS.indexOf(a) - TIER_IDS.indexOf(b));
@@ -0,0 +1,136 @@
+import { Board } from './types';
+import { Grid, UNITS, bit, cloneGrid, popcount } from './grid';
+import { CellDigit, Step, TECHNIQUES, TechniqueId, applyStep, getTechnique } from './techniques';
+import { boardFromString } from './board';
+import { loadBankEntries } from './bank';
+import { remixPuzzle } from './transform';
+import { Random } from './random';
+import { solvePlayback } from './playback';
+import { TIER_IDS, tierForScore } from './tiers';
+
+export interface TrainingPosition {
+  technique: TechniqueId;
+  puzzle: Board;
+  solution: Board;
+  // The position with candidates as the earlier steps of the solve left them.
+  grid: Grid;
+  // The deduction the engine makes here.
+  step: Step;
+}
+
+export interface TrainingVerdict {
+  correct: boolean;
+  // Deductions the technique allowed that the answer left out.
+  missed: CellDigit[];
+}
+
+export interface TechniqueProgress {
+  attempts: number;
+  correct: number;
+  // Results of the latest answers, oldest first.
+  recent: boolean[];
+}
+
+export type TrainingProgress = Partial<Record<TechniqueId, TechniqueProgress>>;
+
+// Tiers to search, starting with the one the technique's rating falls into.
+const searchOrder = (technique: TechniqueId) => {
+  const home = TIER_IDS.indexOf(tierForScore(getTechnique(technique).rating));
+  return [...TIER_IDS.slice(home), ...TIER_IDS.slice(0, home).reverse()];
+};
+
+// Techniques that at least one bank puzzle needs, in library order.
+export const loadTrainableTechniques = async (): Promise<TechniqueId[]> => {
+  const entries = (await Promise.all(TIER_IDS.map(loadBankEntries))).flat();
+  const used = new Set(entries.flatMap(entry => entry.techniques));
+  return TECHNIQUES.map(technique => technique.id).filter(id => used.has(id));
+};
+
+const positionIn = (technique: TechniqueId, puzzle: Board, solution: Board, random: Random): TrainingPosition | null => {
+  const frames = solvePlayback(puzzle).frames.filter(frame => frame.step.technique === technique);
+  if (frames.length === 0) return null;
+  const { grid, step } = frames[random.int(frames.length)];
+  return { technique, puzzle, solution, grid, step };
+};
+
+// Lets the page repaint between solves.
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Finds a bank puzzle whose solve needs the technique, remixes it and returns
+// the position right before a step that uses it, or null if none exists.
+// A remix can lead the engine to another pattern first, in which case the
+// puzzle is used as stored.
+export const findTrainingPosition = async (technique: TechniqueId, random: Random): Promise<TrainingPosition | null> => {
+  for (const tier of searchOrder(technique)) {
+    const entries = (await loadBankEntries(tier)).filter(entry => entry.techniques.includes(technique));
+    for (const entry of random.shuffle(entries)) {
+      await nextTask();
+      const original = { puzzle: boardFromString(entry.puzzle)!, solution: boardFromString(entry.solution)! };
+      const remixed = remixPuzzle(original, random);
+      const position =
+        positionIn(technique, remixed.puzzle, remixed.solution, random) ??
+        positionIn(technique, original.puzzle, original.solution, random);
+      if (position) return position;
+    }
+  }
+  return null;
+};
+
+const isSingle = (grid: Grid, technique: TechniqueId, { cell, digit }: CellDigit) => {
+  if (!(grid.candidates[cell] & bit(digit))) return false;
+  if (technique === 'nakedSingle') return popcount(grid.candidates[cell]) === 1;
+  return UNITS.some(unit => unit.includes(cell) && unit.filter(c => grid.candidates[c] & bit(digit)).length === 1);
+};
+
+// The engine only reports the first instance of a pattern, so keep applying
+// what it finds to collect the eliminations of every instance.
+const allEliminations = (grid: Grid, technique: TechniqueId): CellDigit[] => {
+  const { find } = getTechnique(technique);
+  const position = cloneGrid(grid);
+  const result: CellDigit[] = [];
+  for (let found = find(position); found && found.eliminations.length > 0; found = find(position)) {
+    result.push(...found.eliminations);
+    applyStep(position, found);
+  }
+  return result;
+};
+
+const includes = (list: CellDigit[], { cell, digit }: CellDigit) => list.some(e => e.cell === cell && e.digit === digit);
+
+// Placements must be a single of the trained kind; eliminations must all follow
+// from the technique, though the answer does not have to list every one.
+export const checkTrainingAnswer = ({ technique, grid, step }: TrainingPosition, marks: CellDigit[]): TrainingVerdict => {
+  if (step.placements.length > 0) {
+    const correct = marks.length === 1 && isSingle(grid, technique, marks[0]);
+    return { correct, missed: correct ? [] : step.placements };
+  }
+  const allowed = allEliminations(grid, technique);
+  return {
+    correct: marks.length > 0 && marks.every(mark => includes(allowed, mark)),
+    missed: allowed.filter(e => !includes(marks, e)),
+  };
+};
+
+const PROGRESS_KEY = 'sudoku-training-progress';
+const RECENT_LIMIT = 20;
+
+export const loadTrainingProgress = (): TrainingProgress => {
+  const saved = localStorage.getItem(PROGRESS_KEY);
+  return saved ? JSON.parse(saved) : {};
+};
+
+export const recordTrainingResult = (technique: TechniqueId, correct: boolean): TrainingProgress => {
+  const progress = loadTrainingProgress();
+  const previous = progress[technique] ?? { attempts: 0, correct: 0, recent: [] };
+  progress[technique] = {
+    attempts: previous.attempts + 1,
+    correct: previous.correct + (correct ? 1 : 0),
+    recent: [...previous.recent, correct].slice(-RECENT_LIMIT),
+  };
+  localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+  return progress;
+};
+
+// Mastered after at least ten recent answers with nine in ten of them right.
+export const isMastered = ({ recent }: TechniqueProgress) =>
+  recent.length >= 10 && recent.filter(Boolean).length / recent.length >= 0.9;
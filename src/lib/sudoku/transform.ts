@@ -0,0 +1,61 @@
+import { Board } from './types';
+import { Random } from './random';
+
+export type BoardTransform = (board: Board) => Board;
+
+// mapping[d - 1] is the digit that replaces d.
+export const permuteDigits = (mapping: number[]): BoardTransform => board =>
+  board.map(row => row.map(v => (v === null ? null : mapping[v - 1])));
+
+// order[i] is the index of the source line placed at position i.
+const reorderRows = (order: number[]): BoardTransform => board => order.map(r => [...board[r]]);
+
+export const transpose: BoardTransform = board => board.map((_, r) => board.map(row => row[r]));
+
+export const permuteRowsInBand = (band: number, order: number[]): BoardTransform =>
+  reorderRows(Array.from({ length: 9 }, (_, r) => (Math.floor(r / 3) === band ? band * 3 + order[r % 3] : r)));
+
+export const permuteBands = (order: number[]): BoardTransform =>
+  reorderRows(Array.from({ length: 9 }, (_, r) => order[Math.floor(r / 3)] * 3 + (r % 3)));
+
+export const permuteColsInStack = (stack: number, order: number[]): BoardTransform => board =>
+  transpose(permuteRowsInBand(stack, order)(transpose(board)));
+
+export const permuteStacks = (order: number[]): BoardTransform => board =>
+  transpose(permuteBands(order)(transpose(board)));
+
+export const reflect: BoardTransform = board => board.map(row => [...row].reverse());
+
+// Quarter turn clockwise.
+export const rotate: BoardTransform = board => reflect(transpose(board));
+
+export const compose = (...transforms: BoardTransform[]): BoardTransform => board =>
+  transforms.reduce((current, transform) => transform(current), board);
+
+// A random combination of validity-preserving transforms. The same transform
+// must be applied to a puzzle and its solution to keep them matching.
+export const randomTransform = (random: Random): BoardTransform => {
+  const triple = () => random.shuffle([0, 1, 2]);
+  return compose(
+    permuteDigits(random.shuffle([1, 2, 3, 4, 5, 6, 7, 8, 9])),
+    permuteBands(triple()),
+    permuteStacks(triple()),
+    ...[0, 1, 2].map(i => permuteRowsInBand(i, triple())),
+    ...[0, 1, 2].map(i => permuteColsInStack(i, triple())),
+    ...Array.from({ length: random.int(4) }, () => rotate),
+    ...(random.int(2) ? [reflect] : []),
+    ...(random.int(2) ? [transpose] : [])
+  );
+};
+
+// Produces a new-looking copy of a puzzle. Every technique works the same way on
+// every row, column, box and digit, so the copy needs the same kind of solving
+// and stays in the original's tier. The score itself can shift a little: the
+// engine scans cells in a fixed order and may meet a different pattern first.
+export const remixPuzzle = (
+  { puzzle, solution }: { puzzle: Board; solution: Board },
+  random: Random
+): { puzzle: Board; solution: Board } => {
+  const transform = randomTransform(random);
+  return { puzzle: transform(puzzle), solution: transform(solution) };
+};
@@ -0,0 +1,15 @@
+export type Difficulty = 'beginner' | 'easy' | 'medium' | 'hard' | 'diabolical' | 'extreme';
+export type CellValue = number | null;
+export type Board = CellValue[][];
+
+export interface GamePuzzle {
+  id: string;
+  puzzle: Board;
+  solution: Board;
+  seed: number | null;
+  // The number that regenerates the puzzle, tier included, whatever the current settings; null when it was not generated.
+  code: string | null;
+  canonical: string;
+  clues: number;
+  minimal: boolean;
+}
@@ -0,0 +1,74 @@
+import { Board } from './types';
+import { UNITS, gridFromBoard } from './grid';
+import { findSolutions } from './solver';
+import { formatCells, formatUnit } from './describe';
+
+export type CellRef = [row: number, col: number];
+
+export type PuzzleProblem =
+  | { type: 'format' }
+  | { type: 'duplicate'; digit: number; unit: number; cells: CellRef[] }
+  | { type: 'noSolution'; cells: CellRef[] }
+  | { type: 'multipleSolutions'; cells: CellRef[] };
+
+export interface PuzzleValidation {
+  valid: boolean;
+  problems: PuzzleProblem[];
+  solution: Board | null;
+}
+
+const toRef = (cell: number): CellRef => [Math.floor(cell / 9), cell % 9];
+
+const isWellShaped = (board: Board) =>
+  board.length === 9 &&
+  board.every(row => row.length === 9 && row.every(v => v === null || (Number.isInteger(v) && v >= 1 && v <= 9)));
+
+// Checks a puzzle from outside the generator: shape, repeated givens, and
+// that exactly one solution exists. Problems name the cells involved.
+export const validatePuzzle = (board: Board): PuzzleValidation => {
+  if (!isWellShaped(board)) return { valid: false, problems: [{ type: 'format' }], solution: null };
+
+  const values = board.flat();
+  const problems: PuzzleProblem[] = [];
+  UNITS.forEach((unit, index) => {
+    for (let digit = 1; digit <= 9; digit++) {
+      const cells = unit.filter(cell => values[cell] === digit);
+      if (cells.length > 1) problems.push({ type: 'duplicate', digit, unit: index, cells: cells.map(toRef) });
+    }
+  });
+  if (problems.length > 0) return { valid: false, problems, solution: null };
+
+  const solutions = findSolutions(board, 2);
+  if (solutions.length === 0) {
+    const { values: filled, candidates } = gridFromBoard(board);
+    const stuck = candidates.flatMap((mask, cell) => (filled[cell] === 0 && mask === 0 ? [toRef(cell)] : []));
+    return { valid: false, problems: [{ type: 'noSolution', cells: stuck }], solution: null };
+  }
+  if (solutions.length > 1) {
+    const [first, second] = solutions;
+    const cells = values.flatMap((_, cell) => {
+      const [r, c] = toRef(cell);
+      return first[r][c] !== second[r][c] ? [toRef(cell)] : [];
+    });
+    return { valid: false, problems: [{ type: 'multipleSolutions', cells }], solution: null };
+  }
+
+  return { valid: true, problems: [], solution: solutions[0] };
+};
+
+const formatRefs = (cells: CellRef[]) => formatCells(cells.map(([r, c]) => r * 9 + c));
+
+export const describeProblem = (problem: PuzzleProblem): string => {
+  switch (problem.type) {
+    case 'format':
+      return 'Нужно 81 символ: цифры 1–9, а для пустых клеток точки или нули';
+    case 'duplicate':
+      return `Цифра ${problem.digit} повторяется в ${formatUnit(problem.unit)}: ${formatRefs(problem.cells)}`;
+    case 'noSolution':
+      return problem.cells.length > 0
+        ? `У головоломки нет решения: не остаётся цифр для клеток ${formatRefs(problem.cells)}`
+        : 'У головоломки нет решения';
+    case 'multipleSolutions':
+      return `У головоломки несколько решений, они расходятся в клетках ${formatRefs(problem.cells)}`;
+  }
+};
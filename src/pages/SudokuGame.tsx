@@ -6,101 +6,166 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import CandidateBoard from '@/components/sudoku/CandidateBoard';
 import Confetti from 'react-confetti';
+import { toast } from 'sonner';
+import { usePuzzleGenerator } from '@/hooks/use-puzzle-generator';
+import { Board, Difficulty, GamePuzzle } from '@/lib/sudoku/types';
+import { GenerationCancelledError } from '@/lib/sudoku/generator-client';
+import { ClueRange } from '@/lib/sudoku/generator';
+import { createRandom, randomSeed } from '@/lib/sudoku/random';
+import { PuzzleCode, parsePuzzleCode } from '@/lib/sudoku/puzzle-code';
+import { boardToString } from '@/lib/sudoku/board';
+import { markPuzzleSeen } from '@/lib/sudoku/bank';
+import { importPuzzle } from '@/lib/sudoku/import';
+import { describeProblem } from '@/lib/sudoku/validate';
+import { UNITS, bit, digitsOf, gridFromBoard } from '@/lib/sudoku/grid';
+import { CellDigit, Step, TECHNIQUES, TechniqueId, getTechnique } from '@/lib/sudoku/techniques';
+import { SolvePlayback, solvePlayback } from '@/lib/sudoku/playback';
+import {
+  TrainingPosition,
+  TrainingProgress,
+  TrainingVerdict,
+  checkTrainingAnswer,
+  findTrainingPosition,
+  loadTrainableTechniques,
+  isMastered,
+  loadTrainingProgress,
+  recordTrainingResult,
+} from '@/lib/sudoku/training';
+import { formatCell } from '@/lib/sudoku/describe';
+import { MISTAKE_MODE_NAMES, MistakeMode, findWrongCells } from '@/lib/sudoku/mistakes';
+import { contradictionCells, describeContradiction, findContradiction } from '@/lib/sudoku/contradictions';
+import {
+  Snapshot,
+  UndoHistory,
+  branchDepth,
+  emptyUndoHistory,
+  recordChange,
+  redoChange,
+  takeSnapshot,
+  undoChange,
+} from '@/lib/sudoku/history';
+import { CORNER_SLOTS, NOTE_STYLE_NAMES, NoteStyle, Notes, clearPeerNotes, emptyNotes, toggleNote } from '@/lib/sudoku/notes';
+import { SavedGame, clearSavedGame, loadSavedGame, saveGame } from '@/lib/sudoku/saved-game';
+import {
+  HINT_LEVELS,
+  HINT_LEVEL_COSTS,
+  HINT_LEVEL_NAMES,
+  Hint,
+  HintLevel,
+  deeperHintLevel,
+  describeHint,
+  explainStep,
+  findHint,
+  hintHighlight,
+  hintPenaltyTime,
+  isSameStep,
+  nextHintLevel,
+} from '@/lib/sudoku/hints';
+import { markPuzzlePlayed } from '@/lib/sudoku/played';
+import { dailyKey, dailyPuzzle } from '@/lib/sudoku/daily';
+import { SYMMETRY_NAMES, SymmetrySetting } from '@/lib/sudoku/symmetry';
+import { TIERS, getTier } from '@/lib/sudoku/tiers';
+import { BestScore, Statistics, loadStatistics, saveStatistics } from '@/lib/sudoku/statistics';
 
-type Difficulty = 'easy' | 'medium' | 'hard';
-type CellValue = number | null;
-type Board = CellValue[][];
-
-interface BestScore {
-  time: number;
-  mistakes: number;
-  date: string;
-}
-
-interface Statistics {
-  easy: BestScore | null;
-  medium: BestScore | null;
-  hard: BestScore | null;
-  totalGames: number;
-}
-
-const generateSudoku = (difficulty: Difficulty): { puzzle: Board; solution: Board } => {
-  const solution: Board = Array(9).fill(null).map(() => Array(9).fill(null));
-  
-  const isValid = (board: Board, row: number, col: number, num: number): boolean => {
-    for (let x = 0; x < 9; x++) {
-      if (board[row][x] === num || board[x][col] === num) return false;
-    }
-    const startRow = Math.floor(row / 3) * 3;
-    const startCol = Math.floor(col / 3) * 3;
-    for (let i = 0; i < 3; i++) {
-      for (let j = 0; j < 3; j++) {
-        if (board[startRow + i][startCol + j] === num) return false;
-      }
-    }
-    return true;
-  };
-
-  const fillBoard = (board: Board): boolean => {
-    for (let row = 0; row < 9; row++) {
-      for (let col = 0; col < 9; col++) {
-        if (board[row][col] === null) {
-          const numbers = [1, 2, 3, 4, 5, 6, 7, 8, 9].sort(() => Math.random() - 0.5);
-          for (const num of numbers) {
-            if (isValid(board, row, col, num)) {
-              board[row][col] = num;
-              if (fillBoard(board)) return true;
-              board[row][col] = null;
-            }
-          }
-          return false;
-        }
-      }
-    }
-    return true;
-  };
-
-  fillBoard(solution);
-  
-  const puzzle = solution.map(row => [...row]);
-  const cellsToRemove = difficulty === 'easy' ? 35 : difficulty === 'medium' ? 45 : 55;
-  
-  let removed = 0;
-  while (removed < cellsToRemove) {
-    const row = Math.floor(Math.random() * 9);
-    const col = Math.floor(Math.random() * 9);
-    if (puzzle[row][col] !== null) {
-      puzzle[row][col] = null;
-      removed++;
-    }
-  }
+const CLUE_RANGES: Record<string, ClueRange | null> = {
+  auto: null,
+  '22-24': [22, 24],
+  '25-27': [25, 27],
+  '28-31': [28, 31],
+  '32-36': [32, 36],
+};
 
-  return { puzzle, solution };
+const formatClueRange = (key: string) => {
+  const range = CLUE_RANGES[key];
+  return range ? `${range[0]}–${range[1]}` : 'по уровню';
 };
 
+// Entries made after a branch point, by how deeply nested the branch is.
+const BRANCH_COLOURS = ['text-sky-600', 'text-violet-600', 'text-amber-600', 'text-emerald-600'];
+
+// Seconds added to the solve time for every hint.
+const HINT_PENALTIES = [0, 10, 30, 60];
+
+const formatPenalty = (seconds: number) => (seconds > 0 ? `+${seconds} с` : 'без штрафа');
+
+const HINT_PRICING = HINT_LEVELS.map(level => `${HINT_LEVEL_NAMES[level]} — ${HINT_LEVEL_COSTS[level] * 100}%`).join(' • ');
+
 export default function SudokuGame() {
   const [difficulty, setDifficulty] = useState<Difficulty>('easy');
   const [board, setBoard] = useState<Board>([]);
   const [initialBoard, setInitialBoard] = useState<Board>([]);
   const [solution, setSolution] = useState<Board>([]);
+  const [seed, setSeed] = useState<number | null>(null);
+  const [code, setCode] = useState<string | null>(null);
+  const [puzzleId, setPuzzleId] = useState('');
+  const [canonical, setCanonical] = useState('');
+  const [clues, setClues] = useState(0);
+  const [minimal, setMinimal] = useState(false);
+  const [seedInput, setSeedInput] = useState('');
   const [selectedCell, setSelectedCell] = useState<[number, number] | null>(null);
   const [timer, setTimer] = useState(0);
   const [isRunning, setIsRunning] = useState(false);
   const [hintsEnabled, setHintsEnabled] = useState(true);
   const [gamesWon, setGamesWon] = useState(0);
-  const [statistics, setStatistics] = useState<Statistics>(() => {
-    const saved = localStorage.getItem('sudoku-statistics');
-    return saved ? JSON.parse(saved) : { easy: null, medium: null, hard: null, totalGames: 0 };
-  });
+  const [statistics, setStatistics] = useState<Statistics>(loadStatistics);
   const [currentView, setCurrentView] = useState<'menu' | 'game'>('menu');
   const [mistakes, setMistakes] = useState(0);
+  const [mistakeMode, setMistakeMode] = useState<MistakeMode>('instant');
+  const [revealedCells, setRevealedCells] = useState<number[]>([]);
+  const [contradictionWarnings, setContradictionWarnings] = useState(true);
   const [showConfetti, setShowConfetti] = useState(false);
   const [soundEnabled, setSoundEnabled] = useState(true);
+  const [symmetry, setSymmetry] = useState<SymmetrySetting>('random');
+  const [minimalOnly, setMinimalOnly] = useState(false);
+  const [clueRange, setClueRange] = useState('auto');
   const [showVictory, setShowVictory] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [hint, setHint] = useState<Hint | null>(null);
+  // Deepest level reached for each hint taken, and the step of the latest one.
+  const [hintLevels, setHintLevels] = useState<HintLevel[]>([]);
+  const [chargedStep, setChargedStep] = useState<Step | null>(null);
+  const [hintPenalty, setHintPenalty] = useState(30);
+  // Settings as they were when the current game started.
+  const [gameHintPenalty, setGameHintPenalty] = useState(30);
+  const [gameMistakeMode, setGameMistakeMode] = useState<MistakeMode>('instant');
+  const [playback, setPlayback] = useState<SolvePlayback | null>(null);
+  const [playbackIndex, setPlaybackIndex] = useState(0);
+  const [trainingProgress, setTrainingProgress] = useState<TrainingProgress>(loadTrainingProgress);
+  const [trainingPosition, setTrainingPosition] = useState<TrainingPosition | null>(null);
+  const [trainingMarks, setTrainingMarks] = useState<CellDigit[]>([]);
+  const [trainingVerdict, setTrainingVerdict] = useState<TrainingVerdict | null>(null);
+  const [trainingLoading, setTrainingLoading] = useState<TechniqueId | null>(null);
+  // Null until the training tab is first opened, as it needs every bank chunk.
+  const [trainableTechniques, setTrainableTechniques] = useState<TechniqueId[] | null>(null);
+  const [trainableLoading, setTrainableLoading] = useState(false);
+  // Candidates ruled out per cell, by applied hints or by the player in the overlay.
+  const [removedCandidates, setRemovedCandidates] = useState<number[]>(() => Array(81).fill(0));
+  const [showCandidates, setShowCandidates] = useState(false);
+  // Positions saved at each branch point, outermost first.
+  const [branches, setBranches] = useState<Snapshot[]>([]);
+  const [notes, setNotes] = useState<Notes>(emptyNotes);
+  const [undoHistory, setUndoHistory] = useState<UndoHistory>(emptyUndoHistory);
+  // Null while the number pad enters digits.
+  const [noteStyle, setNoteStyle] = useState<NoteStyle | null>(null);
+  const [autoClearNotes, setAutoClearNotes] = useState(true);
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(loadSavedGame);
   const audioContextRef = useRef<AudioContext | null>(null);
   const [sakuraParticles, setSakuraParticles] = useState<Array<{id: number, x: number, delay: number, duration: number}>>([]);
   const [wrongCell, setWrongCell] = useState<[number, number] | null>(null);
+  const { generate, cancel: cancelGeneration, generating } = usePuzzleGenerator();
+  // Bumped whenever a game is asked for, so that a slower earlier request
+  // cannot replace the game the player picked after it.
+  const gameRequestRef = useRef(0);
+  const hintsUsed = hintLevels.length;
+  const hintLevelUsed = hintLevels.reduce<HintLevel | null>(deeperHintLevel, null);
 
   useEffect(() => {
     let interval: NodeJS.Timeout;
@@ -129,21 +194,153 @@ export default function SudokuGame() {
     localStorage.setItem('sudoku-games-won', gamesWon.toString());
   }, [gamesWon]);
 
-  const startNewGame = (diff: Difficulty) => {
-    const { puzzle, solution: sol } = generateSudoku(diff);
+  useEffect(() => {
+    if (currentView !== 'game' || !isRunning) return;
+    saveGame({
+      difficulty,
+      puzzle: { id: puzzleId, puzzle: initialBoard, solution, seed, code, canonical, clues, minimal },
+      board,
+      notes,
+      removedCandidates,
+      branches,
+      timer,
+      mistakes,
+      hintLevels,
+      hintPenalty: gameHintPenalty,
+      mistakeMode: gameMistakeMode,
+    });
+  }, [
+    currentView, isRunning, difficulty, puzzleId, initialBoard, solution, seed, code, canonical, clues, minimal,
+    board, notes, removedCandidates, branches, timer, mistakes, hintLevels, gameHintPenalty, gameMistakeMode,
+  ]);
+
+  useEffect(() => {
+    const shared = new URLSearchParams(window.location.search).get('puzzle');
+    if (!shared) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    const result = importPuzzle(shared, 'shared');
+    if (result.ok) {
+      beginGame(result.difficulty, result.puzzle);
+    } else {
+      toast.error('Не удалось открыть головоломку по ссылке', {
+        description: result.problems.map(describeProblem).join(' '),
+      });
+    }
+    // Only the link the page was opened with, once.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const beginGame = (diff: Difficulty, gamePuzzle: GamePuzzle) => {
+    const { id, puzzle, solution: sol, seed: usedSeed, canonical: puzzleCanonical } = gamePuzzle;
+    setClues(gamePuzzle.clues);
+    setMinimal(gamePuzzle.minimal);
+    markPuzzleSeen(id);
     setBoard(puzzle);
     setInitialBoard(puzzle.map(row => [...row]));
     setSolution(sol);
+    setSeed(usedSeed);
+    setCode(gamePuzzle.code);
+    setPuzzleId(id);
+    setCanonical(puzzleCanonical);
     setDifficulty(diff);
     setTimer(0);
     setIsRunning(true);
     setSelectedCell(null);
     setMistakes(0);
+    setRevealedCells([]);
+    setHint(null);
+    setHintLevels([]);
+    setChargedStep(null);
+    setGameHintPenalty(hintPenalty);
+    setGameMistakeMode(mistakeMode);
+    setRemovedCandidates(Array(81).fill(0));
+    setBranches([]);
+    setNotes(emptyNotes());
+    setNoteStyle(null);
+    setUndoHistory(emptyUndoHistory());
     setCurrentView('game');
     setShowVictory(false);
     setShowConfetti(false);
   };
 
+  const cancelPendingGame = () => {
+    cancelGeneration();
+    return ++gameRequestRef.current;
+  };
+
+  // A puzzle number carries its own tier and options, so the current settings
+  // and the tier button only apply when they are missing from it.
+  const startNewGame = async (picked: Difficulty, puzzleCode?: PuzzleCode) => {
+    const diff = puzzleCode?.difficulty ?? picked;
+    const request = ++gameRequestRef.current;
+    try {
+      const generated = await generate(diff, puzzleCode?.seed, puzzleCode?.options ?? {
+        symmetry,
+        minimal: minimalOnly,
+        clues: CLUE_RANGES[clueRange] ?? undefined,
+      });
+      if (request !== gameRequestRef.current) return;
+      beginGame(generated.difficulty, generated.puzzle);
+      if (generated.difficulty !== diff) {
+        toast.info(`Получилась головоломка уровня «${getTier(generated.difficulty).name}»`, {
+          description: `С выбранным числом открытых цифр или минимальностью уровень «${getTier(diff).name}» не вышел.`,
+        });
+      }
+    } catch (error) {
+      if (!(error instanceof GenerationCancelledError)) {
+        toast.error('Не удалось создать головоломку', { description: 'Попробуйте ещё раз.' });
+      }
+    }
+  };
+
+  const resumeGame = () => {
+    if (!savedGame) return;
+    cancelPendingGame();
+    beginGame(savedGame.difficulty, savedGame.puzzle);
+    setBoard(savedGame.board);
+    setNotes(savedGame.notes);
+    setRemovedCandidates(savedGame.removedCandidates);
+    setBranches(savedGame.branches);
+    setTimer(savedGame.timer);
+    setMistakes(savedGame.mistakes);
+    setHintLevels(savedGame.hintLevels);
+    setGameHintPenalty(savedGame.hintPenalty);
+    setGameMistakeMode(savedGame.mistakeMode);
+  };
+
+  const startDailyGame = async () => {
+    const request = cancelPendingGame();
+    try {
+      const daily = await dailyPuzzle();
+      if (request === gameRequestRef.current) beginGame(daily.difficulty, daily.puzzle);
+    } catch {
+      toast.error('Не удалось открыть задачу дня', { description: 'Попробуйте ещё раз.' });
+    }
+  };
+
+  const handleImport = () => {
+    const result = importPuzzle(importText, 'import');
+    if (!result.ok) {
+      setImportErrors(result.problems.map(describeProblem));
+      return;
+    }
+    cancelPendingGame();
+    setShowImport(false);
+    setImportText('');
+    setImportErrors([]);
+    beginGame(result.difficulty, result.puzzle);
+  };
+
+  const sharePuzzle = async () => {
+    const link = `${window.location.origin}${window.location.pathname}?puzzle=${boardToString(initialBoard)}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Ссылка на головоломку скопирована');
+    } catch {
+      toast.error('Не удалось скопировать ссылку', { description: link });
+    }
+  };
+
   const handleCellClick = (row: number, col: number) => {
     if (initialBoard[row][col] === null) {
       setSelectedCell([row, col]);
@@ -216,10 +413,27 @@ export default function SudokuGame() {
     const [row, col] = selectedCell;
     if (initialBoard[row][col] !== null) return;
 
+    if (noteStyle) {
+      if (board[row][col] !== null) return;
+      recordMove();
+      setNotes(current => toggleNote(current, noteStyle, row * 9 + col, num));
+      return;
+    }
+
+    recordMove();
+    setHint(null);
     const newBoard = board.map(r => [...r]);
     newBoard[row][col] = num;
+    if (autoClearNotes) setNotes(current => clearPeerNotes(current, row * 9 + col, num));
     
-    if (solution[row][col] !== num) {
+    if (gameMistakeMode !== 'instant') {
+      // Give nothing away: every entry sounds the same until mistakes are revealed.
+      playSound(523.25, 0.15, 'correct');
+      setRevealedCells(cells => cells.filter(cell => cell !== row * 9 + col));
+      if (newBoard.every(r => r.every(value => value !== null)) && findWrongCells(newBoard, solution).length > 0) {
+        revealMistakes(newBoard);
+      }
+    } else if (solution[row][col] !== num) {
       setMistakes(m => m + 1);
       playSound(200, 0.2, 'wrong');
       setWrongCell([row, col]);
@@ -236,6 +450,60 @@ export default function SudokuGame() {
     checkWin(newBoard);
   };
 
+  const eraseCell = () => {
+    if (!selectedCell || !isRunning) return;
+    const [row, col] = selectedCell;
+    if (initialBoard[row][col] !== null) return;
+    const cell = row * 9 + col;
+    if (board[row][col] !== null) {
+      recordMove();
+      setHint(null);
+      setBoard(board.map((r, i) => (i === row ? r.map((value, j) => (j === col ? null : value)) : r)));
+      setRevealedCells(cells => cells.filter(c => c !== cell));
+    } else if (notes.corner[cell] || notes.centre[cell]) {
+      recordMove();
+      setNotes(current => ({
+        corner: current.corner.map((mask, i) => (i === cell ? 0 : mask)),
+        centre: current.centre.map((mask, i) => (i === cell ? 0 : mask)),
+      }));
+    }
+  };
+
+  // Costs a hint whether or not anything is wrong, so it cannot serve as a free check.
+  const clearMistakes = () => {
+    if (!hintsEnabled || !isRunning) return;
+    const wrong = findWrongCells(board, solution);
+    const found = wrong.filter(cell => !revealedCells.includes(cell));
+    setHintLevels(levels => [...levels, 'cells']);
+    setChargedStep(null);
+    if (wrong.length === 0) {
+      toast.success('Ошибок нет');
+      return;
+    }
+    recordMove();
+    setHint(null);
+    setBoard(board.map((row, r) => row.map((value, c) => (wrong.includes(r * 9 + c) ? null : value))));
+    setRevealedCells([]);
+    if (gameMistakeMode !== 'instant' && found.length > 0) setMistakes(m => m + found.length);
+    toast.success(`Убрано неверных цифр: ${wrong.length}`);
+  };
+
+  // Marks the wrong entries of the board and counts the newly found ones as mistakes.
+  const revealMistakes = (currentBoard: Board) => {
+    const wrong = findWrongCells(currentBoard, solution);
+    const found = wrong.filter(cell => !revealedCells.includes(cell));
+    setRevealedCells(wrong);
+    if (found.length > 0) {
+      setMistakes(m => m + found.length);
+      playSound(200, 0.2, 'wrong');
+    }
+    if (wrong.length > 0) {
+      toast.error(`Неверных цифр: ${wrong.length}`);
+    } else {
+      toast.success('Ошибок нет');
+    }
+  };
+
   const checkWin = (currentBoard: Board) => {
     const isComplete = currentBoard.every((row, i) =>
       row.every((cell, j) => cell === solution[i][j])
@@ -245,23 +513,44 @@ export default function SudokuGame() {
       setGamesWon(g => g + 1);
       setShowConfetti(true);
       setShowVictory(true);
+      markPuzzlePlayed(canonical);
+      clearSavedGame();
+      setSavedGame(null);
       
-      const newStats = { ...statistics };
+      const newStats = {
+        ...statistics,
+        best: { ...statistics.best },
+        bestWithHints: { ...statistics.bestWithHints },
+        gamesByHintLevel: { ...statistics.gamesByHintLevel },
+      };
       newStats.totalGames += 1;
+      if (hintLevelUsed) {
+        newStats.gamesByHintLevel[hintLevelUsed] = (newStats.gamesByHintLevel[hintLevelUsed] ?? 0) + 1;
+      }
       
       const currentScore: BestScore = {
-        time: timer,
+        time: finalTime,
         mistakes: mistakes,
-        date: new Date().toLocaleDateString('ru-RU')
+        date: new Date().toLocaleDateString('ru-RU'),
+        seed,
+        code,
+        puzzleId,
+        clues,
+        minimal,
+        mistakeMode: gameMistakeMode,
+        hints: hintsUsed,
+        hintPenalty: penaltyTime,
+        hintLevel: hintLevelUsed
       };
       
-      const bestScore = newStats[difficulty];
-      if (!bestScore || timer < bestScore.time || (timer === bestScore.time && mistakes < bestScore.mistakes)) {
-        newStats[difficulty] = currentScore;
+      const records = hintsUsed > 0 ? newStats.bestWithHints : newStats.best;
+      const bestScore = records[difficulty];
+      if (!bestScore || finalTime < bestScore.time || (finalTime === bestScore.time && mistakes < bestScore.mistakes)) {
+        records[difficulty] = currentScore;
       }
       
       setStatistics(newStats);
-      localStorage.setItem('sudoku-statistics', JSON.stringify(newStats));
+      saveStatistics(newStats);
       
       if (soundEnabled) {
         playSound(523.25, 0.5, 'win');
@@ -274,16 +563,193 @@ export default function SudokuGame() {
   };
 
   const getHint = () => {
-    if (!selectedCell || !hintsEnabled) return;
-    const [row, col] = selectedCell;
-    if (initialBoard[row][col] !== null) return;
-    
-    const newBoard = board.map(r => [...r]);
-    newBoard[row][col] = solution[row][col];
-    setBoard(newBoard);
-    checkWin(newBoard);
+    if (!hintsEnabled) return;
+    const level = hint ? nextHintLevel(hint.level) : null;
+    // Reason only from correct entries and from removals that keep the solution possible.
+    const correct = board.map((row, r) => row.map((value, c) => (value === solution[r][c] ? value : null)));
+    const removed = removedCandidates.map((mask, cell) => mask & ~bit(solution[Math.floor(cell / 9)][cell % 9]!));
+    const next = hint?.step && level ? { ...hint, level } : findHint(correct, removed);
+    setHint(next);
+    if (!next.step) return;
+    // Going deeper into the same step, even after closing it, raises the cost of that hint.
+    if (isSameStep(next.step, chargedStep)) {
+      setHintLevels(levels => [...levels.slice(0, -1), deeperHintLevel(levels[levels.length - 1], next.level)]);
+    } else {
+      setHintLevels(levels => [...levels, next.level]);
+      setChargedStep(next.step);
+    }
+  };
+
+  const applyHint = () => {
+    if (!hint?.step) return;
+    recordMove();
+    const { placements, eliminations } = hint.step;
+    if (placements.length > 0) {
+      const newBoard = board.map(r => [...r]);
+      placements.forEach(({ cell, digit }) => {
+        newBoard[Math.floor(cell / 9)][cell % 9] = digit;
+      });
+      if (autoClearNotes) {
+        setNotes(current => placements.reduce((next, { cell, digit }) => clearPeerNotes(next, cell, digit), current));
+      }
+      setBoard(newBoard);
+      checkWin(newBoard);
+    }
+    if (eliminations.length > 0) {
+      setRemovedCandidates(prev => {
+        const next = [...prev];
+        eliminations.forEach(({ cell, digit }) => {
+          next[cell] |= bit(digit);
+        });
+        return next;
+      });
+    }
+    setHint(null);
+  };
+
+  const toggleCandidate = (cell: number, digit: number) => {
+    recordMove();
+    setRemovedCandidates(prev => prev.map((mask, i) => (i === cell ? mask ^ bit(digit) : mask)));
   };
 
+  const markBranch = () => {
+    setBranches(points => [...points, takeSnapshot(board, removedCandidates, notes)]);
+  };
+
+  const keepBranch = () => {
+    setBranches(points => points.slice(0, -1));
+  };
+
+  const rollbackBranch = () => {
+    const point = branches[branches.length - 1];
+    if (!point) return;
+    recordMove();
+    setBoard(point.board);
+    setRemovedCandidates(point.removedCandidates);
+    setNotes(point.notes);
+    setBranches(branches.slice(0, -1));
+    setHint(null);
+  };
+
+  const recordMove = () => {
+    setUndoHistory(history => recordChange(history, takeSnapshot(board, removedCandidates, notes)));
+  };
+
+  const restoreSnapshot = (snapshot: Snapshot) => {
+    setBoard(snapshot.board);
+    setRemovedCandidates(snapshot.removedCandidates);
+    setNotes(snapshot.notes);
+    setHint(null);
+    checkWin(snapshot.board);
+  };
+
+  // The mistake counter is left alone, so undoing a wrong entry does not hide it.
+  const undoMove = () => {
+    const result = isRunning && undoChange(undoHistory, takeSnapshot(board, removedCandidates, notes));
+    if (!result) return;
+    setUndoHistory(result.history);
+    restoreSnapshot(result.snapshot);
+  };
+
+  const redoMove = () => {
+    const result = isRunning && redoChange(undoHistory, takeSnapshot(board, removedCandidates, notes));
+    if (!result) return;
+    setUndoHistory(result.history);
+    restoreSnapshot(result.snapshot);
+  };
+
+  // Keyboard shortcuts call the handlers of the latest render.
+  const inGame = currentView === 'game';
+  const shortcutsRef = useRef({ inGame, undoMove, redoMove, eraseCell });
+  shortcutsRef.current = { inGame, undoMove, redoMove, eraseCell };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      // The game stays running behind the menu, where the keys must not touch it.
+      if (!shortcutsRef.current.inGame) return;
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        shortcutsRef.current.eraseCell();
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      event.preventDefault();
+      if (event.shiftKey) {
+        shortcutsRef.current.redoMove();
+      } else {
+        shortcutsRef.current.undoMove();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const contradiction = contradictionWarnings && board.length > 0 ? findContradiction(board) : null;
+
+  // Candidates allowed by the digits on the board, including the player's own.
+  const allowedCandidates = showCandidates ? gridFromBoard(board).candidates : null;
+
+  const penaltyTime = hintPenaltyTime(hintLevels, gameHintPenalty);
+  const finalTime = timer + penaltyTime;
+  const record = (hintsUsed > 0 ? statistics.bestWithHints : statistics.best)[difficulty];
+
+  const openPlayback = () => {
+    setShowVictory(false);
+    setPlayback(solvePlayback(initialBoard));
+    setPlaybackIndex(0);
+  };
+
+  const loadTraining = async () => {
+    if (trainableTechniques || trainableLoading) return;
+    setTrainableLoading(true);
+    try {
+      setTrainableTechniques(await loadTrainableTechniques());
+    } catch {
+      toast.error('Не удалось загрузить тренировку', { description: 'Попробуйте ещё раз.' });
+    } finally {
+      setTrainableLoading(false);
+    }
+  };
+
+  const startTraining = async (technique: TechniqueId) => {
+    setTrainingLoading(technique);
+    try {
+      const position = await findTrainingPosition(technique, createRandom(randomSeed()));
+      setTrainingMarks([]);
+      setTrainingVerdict(null);
+      setTrainingPosition(position);
+      if (!position) toast.error(`Пока нет позиций для приёма «${getTechnique(technique).name}»`);
+    } catch {
+      toast.error('Не удалось загрузить позицию', { description: 'Попробуйте ещё раз.' });
+    } finally {
+      setTrainingLoading(null);
+    }
+  };
+
+  const toggleTrainingMark = (cell: number, digit: number) => {
+    if (!trainingPosition || trainingVerdict) return;
+    // A placement is a single answer; eliminations can be marked one by one.
+    if (trainingPosition.step.placements.length > 0) {
+      setTrainingMarks([{ cell, digit }]);
+      return;
+    }
+    setTrainingMarks(marks =>
+      marks.some(m => m.cell === cell && m.digit === digit)
+        ? marks.filter(m => m.cell !== cell || m.digit !== digit)
+        : [...marks, { cell, digit }]
+    );
+  };
+
+  const checkTraining = () => {
+    if (!trainingPosition) return;
+    const verdict = checkTrainingAnswer(trainingPosition, trainingMarks);
+    setTrainingVerdict(verdict);
+    setTrainingProgress(recordTrainingResult(trainingPosition.technique, verdict.correct));
+  };
+
+  const playbackFrame = playback?.frames[playbackIndex] ?? null;
+  const playbackGrid = playbackFrame?.grid ?? playback?.final;
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -307,19 +773,60 @@ export default function SudokuGame() {
   const getCellClassName = (row: number, col: number) => {
     const isSelected = selectedCell?.[0] === row && selectedCell?.[1] === col;
     const isInitial = initialBoard[row][col] !== null;
-    const isWrong = board[row][col] !== null && board[row][col] !== solution[row][col];
+    const isWrong =
+      board[row][col] !== null &&
+      board[row][col] !== solution[row][col] &&
+      (gameMistakeMode === 'instant' || revealedCells.includes(row * 9 + col));
     const isWrongAnimation = wrongCell?.[0] === row && wrongCell?.[1] === col;
+    const cell = row * 9 + col;
+    const highlight = hint && hintHighlight(hint);
+    const isHintCell = highlight?.cells.includes(cell);
+    const isHintTarget = highlight?.targets.includes(cell);
+    const isHintUnit = highlight?.units.some(unit => UNITS[unit].includes(cell));
+    const hintBackground = isHintCell ? 'bg-primary/30' : isHintUnit ? 'bg-accent/60' : null;
+    const isContradiction = contradiction && contradictionCells(contradiction).includes(cell);
+    const depth = branchDepth(branches, board, cell);
+    const entryColour = depth > 0 ? BRANCH_COLOURS[(depth - 1) % BRANCH_COLOURS.length] : 'text-primary';
     
     return `w-10 h-10 sm:w-12 sm:h-12 flex items-center justify-center border-2 border-foreground cursor-pointer
       transition-all duration-150 hover:bg-accent/50 font-bold text-lg
       ${isSelected ? 'bg-primary/20 shadow-[2px_2px_0_hsl(var(--foreground))]' : ''}
-      ${isInitial ? 'bg-background text-foreground' : 'text-primary bg-card'}
+      ${isInitial ? `${hintBackground ?? 'bg-background'} text-foreground` : `${entryColour} ${hintBackground ?? 'bg-card'}`}
+      ${isHintTarget ? 'ring-2 ring-inset ring-primary' : ''}
+      ${isContradiction ? 'ring-2 ring-inset ring-destructive' : ''}
       ${isWrong ? 'text-destructive' : ''}
       ${isWrongAnimation ? 'animate-shake bg-destructive/30 border-destructive' : ''}
       ${col % 3 === 2 && col !== 8 ? 'border-r-4 border-r-foreground' : ''}
       ${row % 3 === 2 && row !== 8 ? 'border-b-4 border-b-foreground' : ''}`;
   };
 
+  // The player's notes for an empty cell, or null when it has none.
+  const renderNotes = (cell: number) => {
+    const corner = digitsOf(notes.corner[cell]);
+    const centre = digitsOf(notes.centre[cell]);
+    if (corner.length === 0 && centre.length === 0) return null;
+    const slots: (number | null)[] = Array(9).fill(null);
+    corner.forEach((digit, i) => {
+      slots[CORNER_SLOTS[i]] = digit;
+    });
+    return (
+      <div className="relative w-full h-full text-[8px] sm:text-[10px] leading-none font-normal text-muted-foreground">
+        {corner.length > 0 && (
+          <div className="absolute inset-0 grid grid-cols-3 p-0.5">
+            {slots.map((digit, slot) => (
+              <span key={slot} className="flex items-center justify-center">{digit}</span>
+            ))}
+          </div>
+        )}
+        {centre.length > 0 && (
+          <div className="absolute inset-0 flex items-center justify-center px-2">
+            <span className="text-center break-all">{centre.join('')}</span>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (currentView === 'menu') {
     return (
       <div className="min-h-screen paper-texture bg-gradient-to-b from-background to-secondary p-4 sm:p-8 relative overflow-hidden">
@@ -351,12 +858,22 @@ export default function SudokuGame() {
             </div>
           </div>
 
-          <Tabs defaultValue="levels" className="w-full">
-            <TabsList className="grid w-full grid-cols-4 mb-6 bg-card japanese-card border-foreground">
+          <Tabs
+            defaultValue="levels"
+            onValueChange={(tab) => {
+              if (tab === 'training') loadTraining();
+            }}
+            className="w-full"
+          >
+            <TabsList className="grid w-full grid-cols-5 mb-6 bg-card japanese-card border-foreground">
               <TabsTrigger value="levels" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground font-medium">
                 <Icon name="Grid3x3" size={18} className="mr-2" />
                 Уровни
               </TabsTrigger>
+              <TabsTrigger value="training" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground font-medium">
+                <Icon name="Target" size={18} className="mr-2" />
+                Тренировка
+              </TabsTrigger>
               <TabsTrigger value="rules" className="data-[state=active]:bg-primary data-[state=active]:text-primary-foreground font-medium">
                 <Icon name="BookOpen" size={18} className="mr-2" />
                 Правила
@@ -373,54 +890,288 @@ export default function SudokuGame() {
 
             <TabsContent value="levels" className="animate-fade-in">
               <Card className="p-6 sm:p-8 japanese-card bg-card paper-texture">
-                <h2 className="text-3xl font-bold text-center mb-6 text-foreground">Выберите сложность</h2>
-                <div className="grid gap-4">
-                  <Button 
-                    onClick={() => startNewGame('easy')}
-                    className="h-20 text-lg bg-card japanese-card border-foreground text-foreground hover:bg-secondary font-medium group"
+                {savedGame && (
+                  <Button
+                    onClick={resumeGame}
+                    className="w-full h-16 mb-4 text-lg japanese-card bg-card text-foreground hover:bg-secondary font-medium"
                   >
                     <div className="flex items-center justify-between w-full px-4">
                       <div className="flex items-center gap-3">
-                        <Icon name="Cherry" size={32} className="text-primary group-hover:scale-110 transition-transform" />
+                        <Icon name="Play" size={28} />
                         <div className="text-left">
-                          <p className="text-xl font-bold">Новичок</p>
-                          <p className="text-sm text-muted-foreground">для начинающих</p>
+                          <p className="text-xl font-bold">Продолжить игру</p>
+                          <p className="text-xs text-muted-foreground">
+                            {getTier(savedGame.difficulty).name} • {formatTime(savedGame.timer)}
+                          </p>
                         </div>
                       </div>
-                      <span className="text-3xl opacity-20">一</span>
                     </div>
                   </Button>
-                  <Button 
-                    onClick={() => startNewGame('medium')}
-                    className="h-20 text-lg bg-card japanese-card border-foreground text-foreground hover:bg-accent font-medium group"
-                  >
-                    <div className="flex items-center justify-between w-full px-4">
-                      <div className="flex items-center gap-3">
-                        <Icon name="Mountain" size={32} className="text-primary group-hover:scale-110 transition-transform" />
-                        <div className="text-left">
-                          <p className="text-xl font-bold">Средний</p>
-                          <p className="text-sm text-muted-foreground">для опытных</p>
-                        </div>
+                )}
+                <Button
+                  onClick={startDailyGame}
+                  className="w-full h-16 mb-6 text-lg japanese-card bg-primary text-primary-foreground hover:bg-primary/90 font-medium"
+                >
+                  <div className="flex items-center justify-between w-full px-4">
+                    <div className="flex items-center gap-3">
+                      <Icon name="CalendarDays" size={28} />
+                      <div className="text-left">
+                        <p className="text-xl font-bold">Задача дня</p>
+                        <p className="text-xs opacity-80">{dailyKey(new Date())}</p>
                       </div>
-                      <span className="text-3xl opacity-20">二</span>
                     </div>
-                  </Button>
-                  <Button 
-                    onClick={() => startNewGame('hard')}
-                    className="h-20 text-lg bg-card japanese-card border-foreground text-foreground hover:bg-primary/10 font-medium group"
-                  >
-                    <div className="flex items-center justify-between w-full px-4">
-                      <div className="flex items-center gap-3">
-                        <Icon name="Zap" size={32} className="text-primary group-hover:scale-110 transition-transform" />
-                        <div className="text-left">
-                          <p className="text-xl font-bold">Эксперт</p>
-                          <p className="text-sm text-muted-foreground">для мастеров</p>
+                    <span className="text-3xl opacity-40">日</span>
+                  </div>
+                </Button>
+                <h2 className="text-3xl font-bold text-center mb-2 text-foreground">Выберите сложность</h2>
+                <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 mb-6 text-sm text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <Icon name="Grid2x2Check" size={14} />
+                    Открытых цифр: {formatClueRange(clueRange)}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Icon name="Minimize2" size={14} />
+                    {minimalOnly ? 'Минимальная головоломка' : 'Без требования минимальности'}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Icon name="FlipHorizontal2" size={14} />
+                    {SYMMETRY_NAMES[symmetry]}
+                  </span>
+                  {(clueRange !== 'auto' || minimalOnly) && (
+                    <span className="flex items-center gap-1">
+                      <Icon name="Info" size={14} />
+                      С этими настройками уровень может отличаться от выбранного
+                    </span>
+                  )}
+                </div>
+                <div className="grid gap-4">
+                  {TIERS.map((tier) => (
+                    <Button
+                      key={tier.id}
+                      onClick={() => startNewGame(tier.id, parsePuzzleCode(seedInput) ?? undefined)}
+                      className={`h-20 text-lg bg-card japanese-card border-foreground text-foreground ${tier.hoverClass} font-medium group`}
+                    >
+                      <div className="flex items-center justify-between w-full px-4">
+                        <div className="flex items-center gap-3">
+                          <Icon name={tier.icon} size={32} className="text-primary group-hover:scale-110 transition-transform" />
+                          <div className="text-left">
+                            <p className="text-xl font-bold">{tier.name}</p>
+                            <p className="text-sm text-muted-foreground">{generating === tier.id ? 'генерация…' : tier.description}</p>
+                          </div>
                         </div>
+                        {generating === tier.id ? (
+                          <Icon name="Loader2" size={28} className="text-primary animate-spin" />
+                        ) : (
+                          <span className="text-3xl opacity-20">{tier.kanji}</span>
+                        )}
                       </div>
-                      <span className="text-3xl opacity-20">三</span>
-                    </div>
-                  </Button>
+                    </Button>
+                  ))}
+                  {generating && (
+                    <Button
+                      variant="outline"
+                      onClick={cancelGeneration}
+                      className="japanese-card hover:bg-secondary font-medium"
+                    >
+                      <Icon name="X" size={20} className="mr-2" />
+                      Отменить
+                    </Button>
+                  )}
+                </div>
+                <div className="mt-6 p-4 japanese-card bg-background space-y-2">
+                  <Label htmlFor="seed" className="font-medium flex items-center gap-2">
+                    <Icon name="Hash" size={18} className="text-primary" />
+                    Номер головоломки
+                  </Label>
+                  <Input
+                    id="seed"
+                    value={seedInput}
+                    onChange={(e) => setSeedInput(e.target.value)}
+                    placeholder="Оставьте пустым для случайной"
+                    className="japanese-card bg-card"
+                  />
+                  {seedInput.trim() !== '' && parsePuzzleCode(seedInput) === null && (
+                    <p className="text-sm text-destructive">
+                      Номер — целое число от 0 до 4294967295, за которым через «/» могут идти настройки
+                    </p>
+                  )}
+                  {seedInput.includes('/') && parsePuzzleCode(seedInput) !== null && (
+                    <p className="text-sm text-muted-foreground">Уровень и настройки генерации берутся из номера</p>
+                  )}
                 </div>
+                <Dialog
+                  open={showImport}
+                  onOpenChange={(open) => {
+                    setShowImport(open);
+                    setImportErrors([]);
+                  }}
+                >
+                  <DialogTrigger asChild>
+                    <Button variant="outline" className="w-full mt-4 japanese-card hover:bg-secondary font-medium">
+                      <Icon name="ClipboardPaste" size={20} className="mr-2" />
+                      Импорт головоломки
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-md japanese-card bg-card paper-texture">
+                    <DialogHeader>
+                      <DialogTitle className="text-2xl font-bold text-foreground">Импорт головоломки</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-3">
+                      <p className="text-sm text-muted-foreground">
+                        Вставьте 81 символ построчно: цифры 1–9 для открытых клеток, «.» или «0» для пустых.
+                      </p>
+                      <Textarea
+                        value={importText}
+                        onChange={(e) => {
+                          setImportText(e.target.value);
+                          setImportErrors([]);
+                        }}
+                        rows={5}
+                        className="japanese-card bg-background font-mono"
+                      />
+                      {importErrors.map((error) => (
+                        <p key={error} className="text-sm text-destructive">{error}</p>
+                      ))}
+                      <Button
+                        onClick={handleImport}
+                        disabled={importText.trim() === ''}
+                        className="w-full japanese-card bg-primary text-primary-foreground hover:bg-primary/90 font-medium"
+                      >
+                        <Icon name="Play" size={20} className="mr-2" />
+                        Играть
+                      </Button>
+                    </div>
+                  </DialogContent>
+                </Dialog>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="training" className="animate-fade-in">
+              <Card className="p-6 sm:p-8 japanese-card bg-card paper-texture">
+                {trainingPosition ? (
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between gap-3">
+                      <h2 className="text-2xl font-bold text-foreground">{getTechnique(trainingPosition.technique).name}</h2>
+                      <Button
+                        variant="outline"
+                        onClick={() => setTrainingPosition(null)}
+                        className="japanese-card hover:bg-secondary font-medium"
+                      >
+                        <Icon name="ArrowLeft" size={20} className="mr-2" />
+                        Приёмы
+                      </Button>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {trainingPosition.step.placements.length > 0
+                        ? 'Найдите клетку, в которую этот приём позволяет поставить цифру, и нажмите на эту цифру среди кандидатов.'
+                        : 'Отметьте кандидатов, которых этот приём позволяет убрать, и нажмите «Проверить».'}
+                    </p>
+                    <div className="flex justify-center">
+                      <CandidateBoard
+                        grid={trainingPosition.grid}
+                        givens={trainingPosition.puzzle}
+                        onCandidateClick={toggleTrainingMark}
+                        cellClassName={(cell) => (trainingVerdict && trainingPosition.step.cells.includes(cell) ? 'bg-primary/20' : '')}
+                        candidateClassName={(cell, digit) => {
+                          const marked = trainingMarks.some(m => m.cell === cell && m.digit === digit);
+                          if (marked) {
+                            return trainingPosition.step.placements.length > 0
+                              ? 'bg-primary text-primary-foreground font-bold'
+                              : 'text-destructive line-through font-bold';
+                          }
+                          if (trainingVerdict?.missed.some(m => m.cell === cell && m.digit === digit)) return 'text-primary font-bold underline';
+                          return '';
+                        }}
+                      />
+                    </div>
+                    {trainingVerdict ? (
+                      <div className={`p-4 japanese-card ${trainingVerdict.correct ? 'bg-primary/10 border-primary' : 'bg-destructive/10 border-destructive'}`}>
+                        <p className="font-bold flex items-center gap-2 mb-1">
+                          <Icon name={trainingVerdict.correct ? 'CircleCheck' : 'CircleX'} size={20} className={trainingVerdict.correct ? 'text-primary' : 'text-destructive'} />
+                          {trainingVerdict.correct ? 'Верно!' : 'Неверно'}
+                        </p>
+                        <p className="text-sm text-foreground/90">{explainStep(trainingPosition.step)}</p>
+                        {trainingVerdict.correct && trainingVerdict.missed.length > 0 && (
+                          <p className="text-sm text-muted-foreground mt-1">
+                            Ещё можно было убрать: {trainingVerdict.missed.map(m => `${m.digit} из ${formatCell(m.cell)}`).join(', ')}
+                          </p>
+                        )}
+                      </div>
+                    ) : null}
+                    <div className="flex justify-end gap-2">
+                      {trainingVerdict ? (
+                        <Button
+                          onClick={() => startTraining(trainingPosition.technique)}
+                          disabled={trainingLoading !== null}
+                          className="japanese-card bg-primary text-primary-foreground hover:bg-primary/90 font-medium"
+                        >
+                          <Icon name={trainingLoading ? 'Loader2' : 'ArrowRight'} size={20} className={`mr-2 ${trainingLoading ? 'animate-spin' : ''}`} />
+                          Следующая позиция
+                        </Button>
+                      ) : (
+                        <Button
+                          onClick={checkTraining}
+                          disabled={trainingMarks.length === 0}
+                          className="japanese-card bg-primary text-primary-foreground hover:bg-primary/90 font-medium"
+                        >
+                          <Icon name="Check" size={20} className="mr-2" />
+                          Проверить
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <h2 className="text-3xl font-bold text-center mb-2 text-foreground">Тренировка приёмов</h2>
+                    <p className="text-sm text-center text-muted-foreground mb-6">
+                      Выберите приём: вы получите позицию, где он нужен для следующего хода.
+                    </p>
+                    {!trainableTechniques && (
+                      <div className="flex justify-center">
+                        {trainableLoading ? (
+                          <Icon name="Loader2" size={28} className="text-primary animate-spin" />
+                        ) : (
+                          <Button
+                            onClick={loadTraining}
+                            className="japanese-card bg-card hover:bg-secondary font-medium text-foreground"
+                          >
+                            <Icon name="RotateCw" size={20} className="mr-2" />
+                            Загрузить приёмы
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      {TECHNIQUES.filter(technique => trainableTechniques?.includes(technique.id)).map((technique) => {
+                        const progress = trainingProgress[technique.id];
+                        return (
+                          <Button
+                            key={technique.id}
+                            onClick={() => startTraining(technique.id)}
+                            disabled={trainingLoading !== null}
+                            className="h-auto py-3 bg-background japanese-card border-foreground text-foreground hover:bg-accent font-medium"
+                          >
+                            <div className="flex items-center justify-between w-full gap-3">
+                              <div className="text-left">
+                                <p className="font-bold">{technique.name}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {progress
+                                    ? `Точность ${Math.round((progress.correct / progress.attempts) * 100)}% • попыток: ${progress.attempts}`
+                                    : 'Ещё не тренировались'}
+                                </p>
+                              </div>
+                              {trainingLoading === technique.id ? (
+                                <Icon name="Loader2" size={22} className="text-primary animate-spin" />
+                              ) : progress && isMastered(progress) ? (
+                                <Icon name="BadgeCheck" size={22} className="text-primary" />
+                              ) : null}
+                            </div>
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  </>
+                )}
               </Card>
             </TabsContent>
 
@@ -470,6 +1221,65 @@ export default function SudokuGame() {
                       className="data-[state=checked]:bg-primary"
                     />
                   </div>
+                  <div className="flex items-center justify-between gap-4 p-4 japanese-card bg-background">
+                    <div className="flex items-center gap-3">
+                      <Icon name="Hourglass" size={24} className="text-primary" />
+                      <div>
+                        <Label htmlFor="hint-penalty" className="text-lg cursor-pointer font-medium">Штраф за подсказку</Label>
+                        <p className="text-xs text-muted-foreground">Доля штрафа по глубине: {HINT_PRICING}</p>
+                      </div>
+                    </div>
+                    <Select value={String(hintPenalty)} onValueChange={(value) => setHintPenalty(Number(value))}>
+                      <SelectTrigger id="hint-penalty" className="w-48 japanese-card bg-card">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {HINT_PENALTIES.map((option) => (
+                          <SelectItem key={option} value={String(option)}>{formatPenalty(option)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between gap-4 p-4 japanese-card bg-background">
+                    <div className="flex items-center gap-3">
+                      <Icon name="SearchCheck" size={24} className="text-primary" />
+                      <Label htmlFor="mistake-mode" className="text-lg cursor-pointer font-medium">Показ ошибок</Label>
+                    </div>
+                    <Select value={mistakeMode} onValueChange={(value) => setMistakeMode(value as MistakeMode)}>
+                      <SelectTrigger id="mistake-mode" className="w-48 japanese-card bg-card">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(MISTAKE_MODE_NAMES) as MistakeMode[]).map((option) => (
+                          <SelectItem key={option} value={option}>{MISTAKE_MODE_NAMES[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between p-4 japanese-card bg-background">
+                    <div className="flex items-center gap-3">
+                      <Icon name="TriangleAlert" size={24} className="text-primary" />
+                      <Label htmlFor="contradictions" className="text-lg cursor-pointer font-medium">Предупреждать о тупике</Label>
+                    </div>
+                    <Switch
+                      id="contradictions"
+                      checked={contradictionWarnings}
+                      onCheckedChange={setContradictionWarnings}
+                      className="data-[state=checked]:bg-primary"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between p-4 japanese-card bg-background">
+                    <div className="flex items-center gap-3">
+                      <Icon name="Eraser" size={24} className="text-primary" />
+                      <Label htmlFor="auto-clear-notes" className="text-lg cursor-pointer font-medium">Убирать заметки у соседей</Label>
+                    </div>
+                    <Switch
+                      id="auto-clear-notes"
+                      checked={autoClearNotes}
+                      onCheckedChange={setAutoClearNotes}
+                      className="data-[state=checked]:bg-primary"
+                    />
+                  </div>
                   <div className="flex items-center justify-between p-4 japanese-card bg-background">
                     <div className="flex items-center gap-3">
                       <Icon name="Volume2" size={24} className="text-primary" />
@@ -482,6 +1292,50 @@ export default function SudokuGame() {
                       className="data-[state=checked]:bg-primary"
                     />
                   </div>
+                  <div className="flex items-center justify-between gap-4 p-4 japanese-card bg-background">
+                    <div className="flex items-center gap-3">
+                      <Icon name="FlipHorizontal2" size={24} className="text-primary" />
+                      <Label htmlFor="symmetry" className="text-lg cursor-pointer font-medium">Симметрия открытых цифр</Label>
+                    </div>
+                    <Select value={symmetry} onValueChange={(value) => setSymmetry(value as SymmetrySetting)}>
+                      <SelectTrigger id="symmetry" className="w-48 japanese-card bg-card">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(SYMMETRY_NAMES) as SymmetrySetting[]).map((option) => (
+                          <SelectItem key={option} value={option}>{SYMMETRY_NAMES[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between gap-4 p-4 japanese-card bg-background">
+                    <div className="flex items-center gap-3">
+                      <Icon name="Grid2x2Check" size={24} className="text-primary" />
+                      <Label htmlFor="clues" className="text-lg cursor-pointer font-medium">Открытых цифр</Label>
+                    </div>
+                    <Select value={clueRange} onValueChange={setClueRange}>
+                      <SelectTrigger id="clues" className="w-48 japanese-card bg-card">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.keys(CLUE_RANGES).map((option) => (
+                          <SelectItem key={option} value={option}>{formatClueRange(option)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between p-4 japanese-card bg-background">
+                    <div className="flex items-center gap-3">
+                      <Icon name="Minimize2" size={24} className="text-primary" />
+                      <Label htmlFor="minimal" className="text-lg cursor-pointer font-medium">Минимальные головоломки</Label>
+                    </div>
+                    <Switch
+                      id="minimal"
+                      checked={minimalOnly}
+                      onCheckedChange={setMinimalOnly}
+                      className="data-[state=checked]:bg-primary"
+                    />
+                  </div>
                   <div className="p-4 bg-accent/30 japanese-card border-foreground">
                     <p className="text-sm text-center text-foreground/80">
                       Подсказки помогут в трудной ситуации, но старайтесь решать самостоятельно!
@@ -521,6 +1375,27 @@ export default function SudokuGame() {
                     </div>
                   </div>
 
+                  <div className="w-full p-4 japanese-card bg-background">
+                    <p className="font-medium flex items-center gap-2 mb-3">
+                      <Icon name="Lightbulb" size={18} className="text-primary" />
+                      Игры по глубине подсказок
+                    </p>
+                    <div className="grid grid-cols-5 gap-2 text-center">
+                      <div>
+                        <p className="text-2xl font-bold">
+                          {statistics.totalGames - HINT_LEVELS.reduce((sum, level) => sum + (statistics.gamesByHintLevel[level] ?? 0), 0)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">Без подсказок</p>
+                      </div>
+                      {HINT_LEVELS.map((level) => (
+                        <div key={level}>
+                          <p className="text-2xl font-bold">{statistics.gamesByHintLevel[level] ?? 0}</p>
+                          <p className="text-xs text-muted-foreground">{HINT_LEVEL_NAMES[level]}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
                   <div className="w-full space-y-4 mt-4">
                     <h3 className="text-xl font-bold text-center text-foreground mb-4 flex items-center justify-center gap-2">
                       <span>🏆</span>
@@ -528,22 +1403,20 @@ export default function SudokuGame() {
                     </h3>
                     
                     <div className="space-y-3">
-                      {(['easy', 'medium', 'hard'] as const).map((level) => {
-                        const levelNames = { easy: 'Новичок', medium: 'Средний', hard: 'Эксперт' };
-                        const levelIcons = { easy: 'Cherry', medium: 'Mountain', hard: 'Zap' };
-                        const levelKanji = { easy: '一', medium: '二', hard: '三' };
-                        const score = statistics[level];
+                      {TIERS.map((tier) => {
+                        const score = statistics.best[tier.id];
+                        const hinted = statistics.bestWithHints[tier.id];
                         
                         return (
-                          <div key={level} className="p-4 japanese-card bg-background">
+                          <div key={tier.id} className="p-4 japanese-card bg-background">
                             <div className="flex items-center justify-between">
                               <div className="flex items-center gap-3">
                                 <div className="relative">
-                                  <Icon name={levelIcons[level]} size={28} className="text-primary" />
-                                  <span className="absolute -top-1 -right-1 text-xs font-bold text-primary">{levelKanji[level]}</span>
+                                  <Icon name={tier.icon} size={28} className="text-primary" />
+                                  <span className="absolute -top-1 -right-1 text-xs font-bold text-primary">{tier.kanji}</span>
                                 </div>
                                 <div>
-                                  <p className="font-bold text-lg">{levelNames[level]}</p>
+                                  <p className="font-bold text-lg">{tier.name}</p>
                                   {score ? (
                                     <div className="text-sm text-muted-foreground flex items-center gap-4 mt-1">
                                       <span className="flex items-center gap-1">
@@ -559,6 +1432,24 @@ export default function SudokuGame() {
                                   ) : (
                                     <p className="text-sm text-muted-foreground mt-1">Нет результата</p>
                                   )}
+                                  {hinted && (
+                                    <div className="text-xs text-muted-foreground flex flex-wrap items-center gap-x-3 gap-y-1 mt-1">
+                                      <span>С подсказками:</span>
+                                      <span className="flex items-center gap-1">
+                                        <Icon name="Clock" size={12} />
+                                        {formatTime(hinted.time)}
+                                      </span>
+                                      <span className="flex items-center gap-1">
+                                        <Icon name="AlertCircle" size={12} />
+                                        {hinted.mistakes}
+                                      </span>
+                                      <span className="flex items-center gap-1">
+                                        <Icon name="Lightbulb" size={12} />
+                                        {hinted.hints}
+                                        {hinted.hintLevel && ` (${HINT_LEVEL_NAMES[hinted.hintLevel].toLowerCase()})`}
+                                      </span>
+                                    </div>
+                                  )}
                                 </div>
                               </div>
                               {score && (
@@ -613,14 +1504,19 @@ export default function SudokuGame() {
               </div>
             </div>
             <p className="text-2xl font-bold">Завершено!</p>
+            <p className="text-sm text-muted-foreground flex items-center justify-center gap-2">
+              <Icon name={getTier(difficulty).icon} size={16} className="text-primary" />
+              {getTier(difficulty).name}
+              <span className="font-bold text-primary">{getTier(difficulty).kanji}</span>
+            </p>
             
-            {statistics[difficulty] && 
-             (timer < statistics[difficulty]!.time || 
-              (timer === statistics[difficulty]!.time && mistakes <= statistics[difficulty]!.mistakes)) && (
+            {record && 
+             (finalTime < record.time || 
+              (finalTime === record.time && mistakes <= record.mistakes)) && (
               <div className="p-3 japanese-card bg-primary/10 border-primary animate-fade-in">
                 <p className="text-sm font-bold text-primary flex items-center justify-center gap-2">
                   <span className="text-xl">⭐</span>
-                  Новый рекорд!
+                  {hintsUsed > 0 ? 'Новый рекорд с подсказками!' : 'Новый рекорд!'}
                   <span className="text-xl">⭐</span>
                 </p>
               </div>
@@ -630,30 +1526,52 @@ export default function SudokuGame() {
               <div className="p-4 japanese-card bg-background">
                 <Icon name="Clock" size={24} className="mx-auto mb-2 text-primary" />
                 <p className="text-sm text-muted-foreground">Время</p>
-                <p className="text-lg font-bold">{formatTime(timer)}</p>
+                <p className="text-lg font-bold">{formatTime(finalTime)}</p>
+                {penaltyTime > 0 && (
+                  <p className="text-xs text-muted-foreground">в т. ч. штраф {formatTime(penaltyTime)}</p>
+                )}
               </div>
               <div className="p-4 japanese-card bg-background">
                 <Icon name="AlertCircle" size={24} className="mx-auto mb-2 text-destructive" />
                 <p className="text-sm text-muted-foreground">Ошибки</p>
                 <p className="text-lg font-bold">{mistakes}</p>
+                <p className="text-xs text-muted-foreground">проверка: {MISTAKE_MODE_NAMES[gameMistakeMode].toLowerCase()}</p>
+              </div>
+              <div className="col-span-2 p-4 japanese-card bg-background">
+                <p className="text-sm text-muted-foreground flex items-center justify-center gap-2">
+                  <Icon name="Lightbulb" size={18} className="text-primary" />
+                  Подсказки
+                </p>
+                <p className="text-lg font-bold">
+                  {hintsUsed}
+                  {hintLevelUsed && <span className="text-sm font-normal text-muted-foreground"> • глубже всего: {HINT_LEVEL_NAMES[hintLevelUsed]}</span>}
+                </p>
               </div>
             </div>
             
-            {statistics[difficulty] && (
+            {record && (
               <div className="p-3 japanese-card bg-background text-sm">
-                <p className="text-muted-foreground mb-1">Лучший результат:</p>
+                <p className="text-muted-foreground mb-1">{hintsUsed > 0 ? 'Лучший результат с подсказками:' : 'Лучший результат:'}</p>
                 <p className="font-semibold">
-                  {formatTime(statistics[difficulty]!.time)} • {statistics[difficulty]!.mistakes} ошибок
+                  {formatTime(record.time)} • {record.mistakes} ошибок
                 </p>
               </div>
             )}
             
+            <Button
+              variant="outline"
+              onClick={openPlayback}
+              className="w-full mt-4 japanese-card hover:bg-secondary font-medium"
+            >
+              <Icon name="ListOrdered" size={20} className="mr-2" />
+              Разбор решения
+            </Button>
             <Button 
               onClick={() => {
                 setShowVictory(false);
                 setCurrentView('menu');
               }}
-              className="w-full mt-4 japanese-card bg-primary text-primary-foreground hover:bg-primary/90 font-medium"
+              className="w-full japanese-card bg-primary text-primary-foreground hover:bg-primary/90 font-medium"
             >
               В меню
             </Button>
@@ -661,11 +1579,93 @@ export default function SudokuGame() {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={playback !== null} onOpenChange={(open) => !open && setPlayback(null)}>
+        <DialogContent className="sm:max-w-lg japanese-card bg-card paper-texture">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-bold text-foreground">Разбор решения</DialogTitle>
+          </DialogHeader>
+          {playback && playbackGrid && (
+            <div className="space-y-4">
+              <div className="flex justify-center">
+                <CandidateBoard
+                  grid={playbackGrid}
+                  givens={initialBoard}
+                  cellClassName={(cell) => {
+                    const step = playbackFrame?.step;
+                    return `${step?.cells.includes(cell) ? 'bg-primary/20' : ''} ${
+                      step?.placements.some(p => p.cell === cell) ? 'ring-2 ring-inset ring-primary' : ''
+                    }`;
+                  }}
+                  candidateClassName={(cell, digit) => {
+                    const step = playbackFrame?.step;
+                    if (step?.eliminations.some(e => e.cell === cell && e.digit === digit)) return 'text-destructive line-through font-bold';
+                    if (step?.placements.some(p => p.cell === cell && p.digit === digit)) return 'text-primary font-bold';
+                    return '';
+                  }}
+                />
+              </div>
+
+              <div className="p-3 japanese-card bg-background min-h-24">
+                {playbackFrame ? (
+                  <>
+                    <p className="font-bold flex items-center justify-between gap-2 mb-1">
+                      {getTechnique(playbackFrame.step.technique).name}
+                      <span className="text-xs font-normal text-muted-foreground">
+                        Шаг {playbackIndex + 1} из {playback.frames.length}
+                      </span>
+                    </p>
+                    <p className="text-sm text-foreground/90">{explainStep(playbackFrame.step)}</p>
+                  </>
+                ) : (
+                  <p className="text-sm text-foreground/90">
+                    {playback.solved
+                      ? 'Головоломка решена.'
+                      : 'Известные приёмы на этом исчерпаны: дальше нужен перебор.'}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-3">
+                <Button
+                  size="icon"
+                  variant="outline"
+                  onClick={() => setPlaybackIndex(i => i - 1)}
+                  disabled={playbackIndex === 0}
+                  className="japanese-card shrink-0"
+                >
+                  <Icon name="ChevronLeft" size={20} />
+                </Button>
+                <Slider
+                  min={0}
+                  max={playback.frames.length}
+                  step={1}
+                  value={[playbackIndex]}
+                  onValueChange={([index]) => setPlaybackIndex(index)}
+                />
+                <Button
+                  size="icon"
+                  variant="outline"
+                  onClick={() => setPlaybackIndex(i => i + 1)}
+                  disabled={playbackIndex === playback.frames.length}
+                  className="japanese-card shrink-0"
+                >
+                  <Icon name="ChevronRight" size={20} />
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <div className="max-w-4xl mx-auto relative z-10">
         <div className="flex items-center justify-between mb-6">
           <Button 
             variant="outline" 
-            onClick={() => setCurrentView('menu')}
+            onClick={() => {
+              cancelPendingGame();
+              setSavedGame(loadSavedGame());
+              setCurrentView('menu');
+            }}
             className="japanese-card hover:bg-secondary font-medium"
           >
             <Icon name="ArrowLeft" size={20} className="mr-2" />
@@ -675,11 +1675,20 @@ export default function SudokuGame() {
             <div className="flex items-center gap-2 japanese-card bg-card px-4 py-2">
               <Icon name="Clock" size={20} className="text-primary" />
               <span className="font-bold">{formatTime(timer)}</span>
+              {penaltyTime > 0 && <span className="text-sm text-muted-foreground">+{formatTime(penaltyTime)}</span>}
+            </div>
+            <div className="flex items-center gap-2 japanese-card bg-card px-4 py-2" title="Использовано подсказок">
+              <Icon name="Lightbulb" size={20} className="text-primary" />
+              <span className="font-bold">{hintsUsed}</span>
             </div>
             <div className="flex items-center gap-2 japanese-card bg-card px-4 py-2">
               <Icon name="XCircle" size={20} className="text-destructive" />
               <span className="font-bold">{mistakes}</span>
             </div>
+            <div className="hidden sm:flex items-center gap-2 japanese-card bg-card px-4 py-2" title={code !== null ? 'Номер головоломки' : 'Головоломка из сборника'}>
+              <Icon name={code !== null ? 'Hash' : 'BookMarked'} size={20} className="text-primary" />
+              <span className="font-bold select-all">{code ?? puzzleId}</span>
+            </div>
           </div>
         </div>
 
@@ -694,7 +1703,25 @@ export default function SudokuGame() {
                       onClick={() => handleCellClick(rowIndex, colIndex)}
                       className={getCellClassName(rowIndex, colIndex)}
                     >
-                      {cell || ''}
+                      {cell || renderNotes(rowIndex * 9 + colIndex) || (allowedCandidates && (
+                        <div className="grid grid-cols-3 w-full h-full text-[8px] sm:text-[10px] leading-none font-normal">
+                          {[1, 2, 3, 4, 5, 6, 7, 8, 9].map((digit) => {
+                            const index = rowIndex * 9 + colIndex;
+                            if (!(allowedCandidates[index] & bit(digit))) return <span key={digit} />;
+                            const removed = removedCandidates[index] & bit(digit);
+                            return (
+                              <span
+                                key={digit}
+                                onClick={() => toggleCandidate(index, digit)}
+                                title={removed ? 'Вернуть кандидата' : 'Убрать кандидата'}
+                                className={`flex items-center justify-center text-muted-foreground ${removed ? 'opacity-0 hover:opacity-30' : 'hover:text-destructive'}`}
+                              >
+                                {digit}
+                              </span>
+                            );
+                          })}
+                        </div>
+                      )) || ''}
                     </div>
                   ))}
                 </div>
@@ -702,6 +1729,71 @@ export default function SudokuGame() {
             </div>
           </div>
 
+          {contradiction && (
+            <div className="max-w-md mx-auto mb-4 p-3 japanese-card bg-destructive/10 border-destructive text-sm flex items-start gap-2 animate-fade-in">
+              <Icon name="TriangleAlert" size={18} className="text-destructive shrink-0 mt-0.5" />
+              <p>
+                <span className="font-bold">Тупик: решить дальше не получится.</span> {describeContradiction(contradiction)}
+              </p>
+            </div>
+          )}
+
+          {hint && (
+            <div className="max-w-md mx-auto mb-4 p-4 japanese-card bg-background animate-fade-in">
+              <p className="font-bold flex items-center gap-2 mb-1">
+                <Icon name="Lightbulb" size={18} className="text-primary" />
+                {describeHint(hint).title}
+                {hint.step && (
+                  <span className="ml-auto text-xs font-normal text-muted-foreground">
+                    {HINT_LEVELS.indexOf(hint.level) + 1}/{HINT_LEVELS.length}
+                  </span>
+                )}
+              </p>
+              <p className="text-sm text-foreground/90">{describeHint(hint).text}</p>
+              <div className="flex justify-end gap-2 mt-3">
+                {hint.step && hint.level === 'answer' && (
+                  <Button
+                    size="sm"
+                    onClick={applyHint}
+                    className="japanese-card bg-primary text-primary-foreground hover:bg-primary/90 font-medium"
+                  >
+                    Применить
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setHint(null)}
+                  className="japanese-card hover:bg-secondary font-medium"
+                >
+                  Закрыть
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-center gap-2 mb-4">
+            {([null, 'corner', 'centre'] as const).map((style) => (
+              <Button
+                key={style ?? 'digit'}
+                onClick={() => setNoteStyle(style)}
+                className={`japanese-card font-medium ${noteStyle === style ? 'bg-primary text-primary-foreground hover:bg-primary/90' : 'bg-card hover:bg-secondary text-foreground'}`}
+              >
+                <Icon name={style ? 'Pencil' : 'Hash'} size={18} className="mr-2" />
+                {style ? NOTE_STYLE_NAMES[style] : 'Цифры'}
+              </Button>
+            ))}
+            <Button
+              onClick={eraseCell}
+              disabled={!selectedCell || !isRunning}
+              title="Delete"
+              className="japanese-card bg-card hover:bg-secondary font-medium text-foreground"
+            >
+              <Icon name="Eraser" size={18} className="mr-2" />
+              Стереть
+            </Button>
+          </div>
+
           <div className="grid grid-cols-9 gap-2 max-w-md mx-auto mb-4">
             {[1, 2, 3, 4, 5, 6, 7, 8, 9].map(num => {
               const count = getNumberCount(num);
@@ -727,19 +1819,107 @@ export default function SudokuGame() {
             {hintsEnabled && (
               <Button
                 onClick={getHint}
-                disabled={!selectedCell}
+                disabled={hint !== null && (!hint.step || hint.level === 'answer')}
+                title={gameHintPenalty > 0 ? `Штраф ${formatPenalty(gameHintPenalty)} за подсказку до ответа: ${HINT_PRICING}` : undefined}
                 className="japanese-card bg-primary text-primary-foreground hover:bg-primary/90 font-medium"
               >
                 <Icon name="Lightbulb" size={20} className="mr-2" />
-                Подсказка
+                {hint ? 'Подробнее' : 'Подсказка'}
               </Button>
             )}
             <Button
               onClick={() => startNewGame(difficulty)}
+              disabled={generating !== null}
+              className="japanese-card bg-card hover:bg-secondary font-medium text-foreground"
+            >
+              <Icon name={generating ? 'Loader2' : 'RotateCw'} size={20} className={`mr-2 ${generating ? 'animate-spin' : ''}`} />
+              {generating ? 'Генерация…' : 'Новая игра'}
+            </Button>
+            {!isRunning && (
+              <Button
+                onClick={openPlayback}
+                className="japanese-card bg-card hover:bg-secondary font-medium text-foreground"
+              >
+                <Icon name="ListOrdered" size={20} className="mr-2" />
+                Разбор решения
+              </Button>
+            )}
+            {gameMistakeMode === 'onRequest' && isRunning && (
+              <Button
+                onClick={() => revealMistakes(board)}
+                className="japanese-card bg-card hover:bg-secondary font-medium text-foreground"
+              >
+                <Icon name="SearchCheck" size={20} className="mr-2" />
+                Проверить
+              </Button>
+            )}
+            {hintsEnabled && isRunning && (
+              <Button
+                onClick={clearMistakes}
+                title={`Считается подсказкой уровня «${HINT_LEVEL_NAMES.cells}»: ${formatPenalty(hintPenaltyTime(['cells'], gameHintPenalty))}`}
+                className="japanese-card bg-card hover:bg-secondary font-medium text-foreground"
+              >
+                <Icon name="CircleX" size={20} className="mr-2" />
+                Убрать ошибки
+              </Button>
+            )}
+            <Button
+              onClick={undoMove}
+              disabled={!isRunning || undoHistory.past.length === 0}
+              title="Ctrl+Z"
+              className="japanese-card bg-card hover:bg-secondary font-medium text-foreground"
+            >
+              <Icon name="Undo" size={20} className="mr-2" />
+              Отменить
+            </Button>
+            <Button
+              onClick={redoMove}
+              disabled={!isRunning || undoHistory.future.length === 0}
+              title="Ctrl+Shift+Z"
+              className="japanese-card bg-card hover:bg-secondary font-medium text-foreground"
+            >
+              <Icon name="Redo" size={20} className="mr-2" />
+              Вернуть
+            </Button>
+            <Button
+              onClick={markBranch}
+              disabled={!isRunning}
+              className="japanese-card bg-card hover:bg-secondary font-medium text-foreground"
+            >
+              <Icon name="GitBranch" size={20} className="mr-2" />
+              {branches.length > 0 ? `Развилка ${branches.length + 1}` : 'Развилка'}
+            </Button>
+            {branches.length > 0 && (
+              <>
+                <Button
+                  onClick={keepBranch}
+                  className="japanese-card bg-card hover:bg-secondary font-medium text-foreground"
+                >
+                  <Icon name="GitMerge" size={20} className="mr-2" />
+                  Оставить
+                </Button>
+                <Button
+                  onClick={rollbackBranch}
+                  className="japanese-card bg-card hover:bg-secondary font-medium text-foreground"
+                >
+                  <Icon name="Undo2" size={20} className="mr-2" />
+                  Откатить
+                </Button>
+              </>
+            )}
+            <Button
+              onClick={() => setShowCandidates(shown => !shown)}
+              className={`japanese-card font-medium ${showCandidates ? 'bg-primary text-primary-foreground hover:bg-primary/90' : 'bg-card hover:bg-secondary text-foreground'}`}
+            >
+              <Icon name="Grid3x3" size={20} className="mr-2" />
+              Кандидаты
+            </Button>
+            <Button
+              onClick={sharePuzzle}
               className="japanese-card bg-card hover:bg-secondary font-medium text-foreground"
             >
-              <Icon name="RotateCw" size={20} className="mr-2" />
-              Новая игра
+              <Icon name="Share2" size={20} className="mr-2" />
+              Поделиться
             </Button>
           </div>
         </Card>